@@ -706,11 +706,17 @@ class EscrowCLI {
       const result = await response.json();
       
       if (result.success) {
+        // The relayer answers once the transaction is sent
+        const receipt = await this.publicClient.waitForTransactionReceipt({ hash: result.transactionHash });
+        
+        // Extract escrow ID from logs
+        const escrowId = receipt.logs[0].topics[1];
+        
         spinner.succeed(chalk.green('Escrow created via gasless transaction!'));
-        console.log(chalk.gray(`Escrow ID: ${result.escrowId}`));
+        console.log(chalk.gray(`Escrow ID: ${escrowId}`));
         console.log(chalk.gray(`TX: ${result.transactionHash}`));
         console.log(chalk.blue('✨ You paid no gas!'));
-        this.escrowId = result.escrowId;
+        this.escrowId = escrowId;
       } else {
         throw new Error(result.error || 'Failed to create escrow');
       }
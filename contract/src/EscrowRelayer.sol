@@ -86,6 +86,22 @@ contract EscrowRelayer {
         emit TransactionRelayed(buyer, "fundEscrow");
     }
     
+    /**
+     * @dev Relay fund escrow transaction with the buyer's token permit
+     */
+    function relayFundEscrowWithPermit(
+        bytes32 escrowId,
+        address buyer,
+        uint256 permitDeadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s,
+        bytes memory signature
+    ) external onlyRelayer {
+        escrowContract.fundEscrowWithPermitMeta(escrowId, buyer, permitDeadline, v, r, s, signature);
+        emit TransactionRelayed(buyer, "fundEscrow");
+    }
+    
     /**
      * @dev Relay confirm delivery transaction
      */
@@ -111,6 +127,31 @@ contract EscrowRelayer {
         emit TransactionRelayed(seller, "storeDocument");
     }
     
+    /**
+     * @dev Relay initiate dispute transaction
+     */
+    function relayInitiateDispute(
+        bytes32 escrowId,
+        string memory reason,
+        address initiator,
+        bytes memory signature
+    ) external onlyRelayer {
+        escrowContract.initiateDisputeMeta(escrowId, reason, initiator, signature);
+        emit TransactionRelayed(initiator, "initiateDispute");
+    }
+    
+    /**
+     * @dev Relay cancel escrow transaction
+     */
+    function relayCancelEscrow(
+        bytes32 escrowId,
+        address party,
+        bytes memory signature
+    ) external onlyRelayer {
+        escrowContract.cancelEscrowMeta(escrowId, party, signature);
+        emit TransactionRelayed(party, "cancelEscrow");
+    }
+    
     /**
      * @dev Transfer ownership
      */
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
@@ -63,6 +64,12 @@ contract LiskEscrow is ReentrancyGuard, Ownable, EIP712 {
     bytes32 public constant STORE_DOCUMENT_TYPEHASH = keccak256(
         "StoreDocument(bytes32 escrowId,bytes32 documentHash,uint256 nonce)"
     );
+    bytes32 public constant INITIATE_DISPUTE_TYPEHASH = keccak256(
+        "InitiateDispute(bytes32 escrowId,bytes32 reasonHash,uint256 nonce)"
+    );
+    bytes32 public constant CANCEL_ESCROW_TYPEHASH = keccak256(
+        "CancelEscrow(bytes32 escrowId,uint256 nonce)"
+    );
     
     // Events
     event EscrowCreated(
@@ -384,6 +391,52 @@ contract LiskEscrow is ReentrancyGuard, Ownable, EIP712 {
     ) external nonReentrant {
         require(msg.sender == trustedForwarder, "Only trusted forwarder");
         
+        Escrow storage escrow = _verifyFundEscrow(_escrowId, _buyer, _signature);
+        _fund(_escrowId, escrow, _buyer);
+    }
+
+    /**
+     * @dev Funds escrow via meta-transaction, approving the transfer with an
+     * ERC-2612 permit so the buyer needs no on-chain approval first
+     * @param _permitDeadline Deadline the buyer signed the permit with
+     */
+    function fundEscrowWithPermitMeta(
+        bytes32 _escrowId,
+        address _buyer,
+        uint256 _permitDeadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s,
+        bytes memory _signature
+    ) external nonReentrant {
+        require(msg.sender == trustedForwarder, "Only trusted forwarder");
+        
+        Escrow storage escrow = _verifyFundEscrow(_escrowId, _buyer, _signature);
+        
+        // Anyone can submit a permit, so one already used by a front-runner
+        // must not block funding; the transfer still needs the allowance
+        try IERC20Permit(address(escrow.token)).permit(
+            _buyer,
+            address(this),
+            escrow.amount,
+            _permitDeadline,
+            _v,
+            _r,
+            _s
+        ) {} catch {}
+        
+        _fund(_escrowId, escrow, _buyer);
+    }
+
+    /**
+     * @dev Checks a FundEscrow signature and the escrow it is for, using up
+     * the buyer's nonce
+     */
+    function _verifyFundEscrow(
+        bytes32 _escrowId,
+        address _buyer,
+        bytes memory _signature
+    ) private returns (Escrow storage escrow) {
         // Verify signature
         bytes32 structHash = keccak256(abi.encode(
             FUND_ESCROW_TYPEHASH,
@@ -398,12 +451,14 @@ contract LiskEscrow is ReentrancyGuard, Ownable, EIP712 {
         // Increment nonce
         nonces[_buyer]++;
         
-        Escrow storage escrow = escrows[_escrowId];
+        escrow = escrows[_escrowId];
         
         require(escrow.buyer == _buyer, "Only buyer can fund");
         require(escrow.status == EscrowStatus.CREATED, "Invalid escrow status");
         require(block.timestamp <= escrow.deliveryDeadline, "Deadline has passed");
-        
+    }
+
+    function _fund(bytes32 _escrowId, Escrow storage escrow, address _buyer) private {
         // Transfer tokens from buyer to contract
         escrow.token.safeTransferFrom(_buyer, address(this), escrow.amount);
         
@@ -499,6 +554,88 @@ contract LiskEscrow is ReentrancyGuard, Ownable, EIP712 {
         emit DocumentsUploaded(_escrowId, _documentHash, block.timestamp);
     }
 
+    /**
+     * @dev Initiates a dispute via meta-transaction. The signature covers the
+     * hash of the reason, which is passed and stored in full.
+     */
+    function initiateDisputeMeta(
+        bytes32 _escrowId,
+        string memory _reason,
+        address _initiator,
+        bytes memory _signature
+    ) external {
+        require(msg.sender == trustedForwarder, "Only trusted forwarder");
+        
+        // Verify signature
+        bytes32 structHash = keccak256(abi.encode(
+            INITIATE_DISPUTE_TYPEHASH,
+            _escrowId,
+            keccak256(bytes(_reason)),
+            nonces[_initiator]
+        ));
+        
+        bytes32 hash = _hashTypedDataV4(structHash);
+        address signer = hash.recover(_signature);
+        require(signer == _initiator, "Invalid signature");
+        
+        // Increment nonce
+        nonces[_initiator]++;
+        
+        Escrow storage escrow = escrows[_escrowId];
+        
+        require(
+            escrow.buyer == _initiator || escrow.seller == _initiator,
+            "Only buyer or seller can dispute"
+        );
+        require(
+            escrow.status == EscrowStatus.FUNDED || 
+            escrow.status == EscrowStatus.DOCUMENTS_PENDING,
+            "Cannot dispute in current status"
+        );
+        
+        escrow.status = EscrowStatus.DISPUTED;
+        disputeReasons[_escrowId] = _reason;
+        
+        emit DisputeInitiated(_escrowId, _initiator, _reason);
+    }
+
+    /**
+     * @dev Cancels an escrow via meta-transaction (only before funding)
+     */
+    function cancelEscrowMeta(
+        bytes32 _escrowId,
+        address _party,
+        bytes memory _signature
+    ) external {
+        require(msg.sender == trustedForwarder, "Only trusted forwarder");
+        
+        // Verify signature
+        bytes32 structHash = keccak256(abi.encode(
+            CANCEL_ESCROW_TYPEHASH,
+            _escrowId,
+            nonces[_party]
+        ));
+        
+        bytes32 hash = _hashTypedDataV4(structHash);
+        address signer = hash.recover(_signature);
+        require(signer == _party, "Invalid signature");
+        
+        // Increment nonce
+        nonces[_party]++;
+        
+        Escrow storage escrow = escrows[_escrowId];
+        
+        require(
+            escrow.buyer == _party || escrow.seller == _party,
+            "Only buyer or seller can cancel"
+        );
+        require(escrow.status == EscrowStatus.CREATED, "Can only cancel before funding");
+        
+        escrow.status = EscrowStatus.CANCELLED;
+        
+        emit EscrowCancelled(_escrowId);
+    }
+
     /**
      * @dev Updates trusted forwarder
      */
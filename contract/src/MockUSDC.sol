@@ -2,19 +2,21 @@
 pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
 /**
  * @title MockUSDC
- * @dev Mock USDC token for testing with faucet functionality
+ * @dev Mock USDC token for testing with faucet functionality and ERC-2612
+ * permits, like the real USDC
  */
-contract MockUSDC is ERC20, Ownable {
+contract MockUSDC is ERC20, ERC20Permit, Ownable {
     uint256 public constant FAUCET_AMOUNT = 1000 * 10**6; // 1000 USDC
     uint256 public constant FAUCET_COOLDOWN = 1 days;
     
     mapping(address => uint256) public lastFaucetClaim;
     
-    constructor() ERC20("Mock USDC", "USDC") Ownable(msg.sender) {
+    constructor() ERC20("Mock USDC", "USDC") ERC20Permit("Mock USDC") Ownable(msg.sender) {
         // Mint initial supply to deployer
         _mint(msg.sender, 1000000 * 10**6); // 1M USDC
     }
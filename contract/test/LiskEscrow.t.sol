@@ -251,7 +251,26 @@ contract LiskEscrowTest is Test {
         escrow.updateTrustedForwarder(newForwarder);
         assertEq(escrow.trustedForwarder(), newForwarder);
     }
-    
+
+    function testEip712Domain() public view {
+        // Clients build their signing domain from this (ERC-5267)
+        (
+            bytes1 fields,
+            string memory name,
+            string memory version,
+            uint256 chainId,
+            address verifyingContract,
+            ,
+
+        ) = escrow.eip712Domain();
+
+        assertEq(fields, hex"0f"); // name, version, chainId, verifyingContract
+        assertEq(name, "LiskEscrow");
+        assertEq(version, "1");
+        assertEq(chainId, block.chainid);
+        assertEq(verifyingContract, address(escrow));
+    }
+
     // Comprehensive E2E Tests
     function testFullE2EFlowWithRelayer() public {
         // Deploy relayer contract
@@ -497,6 +516,191 @@ contract LiskEscrowTest is Test {
         escrow.cancelEscrow(escrowId2);
     }
     
+    // EIP-712 digest for LiskEscrow's domain, as a wallet would sign it
+    function _digest(bytes32 structHash) internal view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(abi.encode(
+            keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+            keccak256("LiskEscrow"),
+            keccak256("1"),
+            block.chainid,
+            address(escrow)
+        ));
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash));
+    }
+
+    function _sign(uint256 privateKey, bytes32 structHash) internal view returns (bytes memory) {
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(privateKey, _digest(structHash));
+        return abi.encodePacked(r, s, v);
+    }
+
+    function testRelayedDispute() public {
+        EscrowRelayer relayer = new EscrowRelayer(address(escrow));
+        escrow.updateTrustedForwarder(address(relayer));
+
+        uint256 sellerKey = 0xB0B;
+        address signingSeller = vm.addr(sellerKey);
+
+        vm.prank(buyer);
+        bytes32 escrowId = escrow.createEscrow(
+            signingSeller,
+            ESCROW_AMOUNT,
+            address(usdc),
+            block.timestamp + DELIVERY_DEADLINE
+        );
+        vm.prank(buyer);
+        escrow.fundEscrow(escrowId);
+
+        string memory reason = "Buyer is unresponsive";
+        bytes memory signature = _sign(sellerKey, keccak256(abi.encode(
+            escrow.INITIATE_DISPUTE_TYPEHASH(),
+            escrowId,
+            keccak256(bytes(reason)),
+            escrow.nonces(signingSeller)
+        )));
+
+        // The signature is over the reason's hash, so a different reason fails
+        vm.expectRevert("Invalid signature");
+        relayer.relayInitiateDispute(escrowId, "Something else", signingSeller, signature);
+
+        vm.expectEmit(true, false, false, true, address(escrow));
+        emit LiskEscrow.DisputeInitiated(escrowId, signingSeller, reason);
+        relayer.relayInitiateDispute(escrowId, reason, signingSeller, signature);
+
+        (,,,, LiskEscrow.EscrowStatus status,,,,) = escrow.getEscrowDetails(escrowId);
+        assertEq(uint256(status), uint256(LiskEscrow.EscrowStatus.DISPUTED));
+        assertEq(escrow.disputeReasons(escrowId), reason);
+        assertEq(escrow.nonces(signingSeller), 1);
+
+        // Replaying the same signature fails once the nonce has moved on
+        vm.expectRevert("Invalid signature");
+        relayer.relayInitiateDispute(escrowId, reason, signingSeller, signature);
+    }
+
+    function testRelayedCancel() public {
+        EscrowRelayer relayer = new EscrowRelayer(address(escrow));
+        escrow.updateTrustedForwarder(address(relayer));
+
+        uint256 sellerKey = 0xB0B;
+        address signingSeller = vm.addr(sellerKey);
+        uint256 strangerKey = 0xBAD;
+
+        vm.prank(buyer);
+        bytes32 escrowId = escrow.createEscrow(
+            signingSeller,
+            ESCROW_AMOUNT,
+            address(usdc),
+            block.timestamp + DELIVERY_DEADLINE
+        );
+
+        // Only the parties can cancel, even with a valid signature
+        address stranger = vm.addr(strangerKey);
+        bytes memory strangerSignature = _sign(strangerKey, keccak256(abi.encode(
+            escrow.CANCEL_ESCROW_TYPEHASH(),
+            escrowId,
+            escrow.nonces(stranger)
+        )));
+        vm.expectRevert("Only buyer or seller can cancel");
+        relayer.relayCancelEscrow(escrowId, stranger, strangerSignature);
+
+        bytes memory signature = _sign(sellerKey, keccak256(abi.encode(
+            escrow.CANCEL_ESCROW_TYPEHASH(),
+            escrowId,
+            escrow.nonces(signingSeller)
+        )));
+        vm.expectEmit(true, true, false, true, address(relayer));
+        emit EscrowRelayer.TransactionRelayed(signingSeller, "cancelEscrow");
+        relayer.relayCancelEscrow(escrowId, signingSeller, signature);
+
+        (,,,, LiskEscrow.EscrowStatus status,,,,) = escrow.getEscrowDetails(escrowId);
+        assertEq(uint256(status), uint256(LiskEscrow.EscrowStatus.CANCELLED));
+        assertEq(escrow.nonces(signingSeller), 1);
+    }
+
+    function _signPermit(uint256 privateKey, address spender, uint256 value, uint256 deadline)
+        internal
+        view
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        address holder = vm.addr(privateKey);
+        bytes32 structHash = keccak256(abi.encode(
+            keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"),
+            holder,
+            spender,
+            value,
+            usdc.nonces(holder),
+            deadline
+        ));
+        return vm.sign(privateKey, keccak256(abi.encodePacked("\x19\x01", usdc.DOMAIN_SEPARATOR(), structHash)));
+    }
+
+    function testRelayedFundWithPermit() public {
+        EscrowRelayer relayer = new EscrowRelayer(address(escrow));
+        escrow.updateTrustedForwarder(address(relayer));
+
+        // A buyer holding USDC who never approved the escrow on-chain
+        uint256 buyerKey = 0xA11CE;
+        address signingBuyer = vm.addr(buyerKey);
+        usdc.transfer(signingBuyer, ESCROW_AMOUNT);
+
+        vm.prank(signingBuyer);
+        bytes32 escrowId = escrow.createEscrow(
+            seller,
+            ESCROW_AMOUNT,
+            address(usdc),
+            block.timestamp + DELIVERY_DEADLINE
+        );
+
+        bytes memory signature = _sign(buyerKey, keccak256(abi.encode(
+            escrow.FUND_ESCROW_TYPEHASH(),
+            escrowId,
+            escrow.nonces(signingBuyer)
+        )));
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(buyerKey, address(escrow), ESCROW_AMOUNT, deadline);
+
+        // Submitting the permit first must not stop the relay
+        usdc.permit(signingBuyer, address(escrow), ESCROW_AMOUNT, deadline, v, r, s);
+
+        vm.expectEmit(true, true, false, true, address(relayer));
+        emit EscrowRelayer.TransactionRelayed(signingBuyer, "fundEscrow");
+        relayer.relayFundEscrowWithPermit(escrowId, signingBuyer, deadline, v, r, s, signature);
+
+        (,,,, LiskEscrow.EscrowStatus status,,,,) = escrow.getEscrowDetails(escrowId);
+        assertEq(uint256(status), uint256(LiskEscrow.EscrowStatus.FUNDED));
+        assertEq(usdc.balanceOf(address(escrow)), ESCROW_AMOUNT);
+        assertEq(usdc.allowance(signingBuyer, address(escrow)), 0);
+        assertEq(escrow.nonces(signingBuyer), 1);
+    }
+
+    function testRelayedFundWithBadPermit() public {
+        EscrowRelayer relayer = new EscrowRelayer(address(escrow));
+        escrow.updateTrustedForwarder(address(relayer));
+
+        uint256 buyerKey = 0xA11CE;
+        address signingBuyer = vm.addr(buyerKey);
+        usdc.transfer(signingBuyer, ESCROW_AMOUNT);
+
+        vm.prank(signingBuyer);
+        bytes32 escrowId = escrow.createEscrow(
+            seller,
+            ESCROW_AMOUNT,
+            address(usdc),
+            block.timestamp + DELIVERY_DEADLINE
+        );
+
+        bytes memory signature = _sign(buyerKey, keccak256(abi.encode(
+            escrow.FUND_ESCROW_TYPEHASH(),
+            escrowId,
+            escrow.nonces(signingBuyer)
+        )));
+        // Permitting less than the escrow amount leaves the transfer short
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(buyerKey, address(escrow), ESCROW_AMOUNT - 1, deadline);
+
+        vm.expectRevert();
+        relayer.relayFundEscrowWithPermit(escrowId, signingBuyer, deadline, v, r, s, signature);
+    }
+
     // MockUSDC tests
     function testFaucet() public {
         address user = address(0x123);
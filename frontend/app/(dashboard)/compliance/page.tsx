@@ -18,8 +18,14 @@ import {
   Package,
   Truck
 } from "lucide-react";
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useAccount } from "wagmi";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useDocuments } from "@/hooks/use-document";
+import type { DocumentAnchor } from "@/lib/indexer";
+import { shortenAddress } from "@/lib/utils";
 
 interface Document {
   id: string;
@@ -101,6 +107,18 @@ const mockContractsNeedingDocs: Contract[] = [
 
 export default function CompliancePage() {
   const [uploadedFiles, setUploadedFiles] = useState<Record<string, File | null>>({});
+  const { address } = useAccount();
+  const { data: anchoredDocuments, isLoading: isDocumentsLoading } = useDocuments(address);
+
+  // Newest upload first, so contracts come in order of their latest document
+  const documentsByContract = useMemo(() => {
+    const groups = new Map<string, DocumentAnchor[]>();
+    for (const doc of anchoredDocuments ?? []) {
+      const key = `${doc.chainId}:${doc.escrowId}`;
+      groups.set(key, [...(groups.get(key) ?? []), doc]);
+    }
+    return [...groups.values()];
+  }, [anchoredDocuments]);
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'verified': return 'bg-green-100 text-green-800';
@@ -424,29 +442,47 @@ export default function CompliancePage() {
               <CardTitle>Documents by Contract</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-6">
-                {['CTR-2024-001', 'CTR-2024-002'].map((contractId) => (
-                  <div key={contractId} className="border rounded-lg p-4">
-                    <h4 className="font-semibold mb-3">{contractId}</h4>
-                    <div className="space-y-2">
-                      {mockDocuments.filter(doc => doc.contractId === contractId).map((doc) => (
-                        <div key={doc.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                          <div className="flex items-center gap-2">
-                            <FileText className="h-4 w-4 text-blue-600" />
-                            <span className="text-sm">{getDocumentTypeLabel(doc.type)}</span>
-                            <Badge className={`${getStatusColor(doc.status)} text-xs`}>
-                              {doc.status}
-                            </Badge>
-                          </div>
-                          <Button variant="ghost" size="sm">
-                            <Download className="h-4 w-4" />
-                          </Button>
+              {!address ? (
+                <p className="text-gray-500 text-center py-8">Connect your wallet to see documents on your contracts</p>
+              ) : isDocumentsLoading ? (
+                <div className="space-y-6">
+                  {[0, 1].map((i) => (
+                    <Skeleton key={i} className="h-24 w-full rounded-lg" />
+                  ))}
+                </div>
+              ) : documentsByContract.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No documents have been anchored to your contracts yet</p>
+              ) : (
+                <div className="space-y-6">
+                  {documentsByContract.map((docs) => {
+                    const { chainId, escrowId, escrow } = docs[0];
+                    return (
+                      <div key={`${chainId}-${escrowId}`} className="border rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-3">
+                          <Link href={`/contracts/${escrowId}`} className="font-semibold font-mono hover:underline">
+                            {shortenAddress(escrowId)}
+                          </Link>
+                          <Badge variant="outline">{escrow.status.replace('_', ' ')}</Badge>
                         </div>
-                      ))}
-                    </div>
-                  </div>
-                ))}
-              </div>
+                        <div className="space-y-2">
+                          {docs.map((doc) => (
+                            <div key={doc.position} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                              <div className="flex items-center gap-2">
+                                <FileText className="h-4 w-4 text-blue-600" />
+                                <span className="text-sm">Document {doc.position + 1}</span>
+                                <span className="text-xs text-gray-500 font-mono">{shortenAddress(doc.documentHash)}</span>
+                              </div>
+                              <span className="text-xs text-gray-500">
+                                {new Date(doc.timestamp * 1000).toLocaleDateString()}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -1,13 +1,31 @@
 "use client";
 
 import { useState } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams } from "next/navigation";
+import { useAccount } from "wagmi";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { DeadlineBadge } from "@/components/escrow/deadline-badge";
+import { EscrowDocuments } from "@/components/escrow/escrow-documents";
+import { EscrowTimeline } from "@/components/escrow/escrow-timeline";
+import { RelayProgress } from "@/components/escrow/relay-progress";
+import { useEscrow } from "@/hooks/use-escrow";
+import { useGasless } from "@/hooks/use-gasless";
+import { isAwaitingDelivery } from "@/lib/indexer";
+import type {
+  GaslessTransactionService,
+  RelayError,
+  RelayReceipt,
+  RelayResult,
+  RelayTracker,
+} from "@/lib/gasless";
 import { 
   ArrowLeft, 
+  Ban,
   Clock, 
   DollarSign, 
   FileText, 
@@ -22,6 +40,10 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { formatDistanceToNow } from "date-fns";
+import { isAddressEqual, isHex, type Hex } from "viem";
+
+// The relayer pays to store the reason on-chain and caps its length
+const MAX_DISPUTE_REASON_LENGTH = 1000;
 
 // Mock data - will be replaced with Ponder query
 const mockContract = {
@@ -87,8 +109,19 @@ const currentUser = {
 
 export default function ContractDetailPage() {
   const params = useParams();
-  const router = useRouter();
+  const { address } = useAccount();
+  const gasless = useGasless();
   const [isProcessing, setIsProcessing] = useState(false);
+  const [relay, setRelay] = useState<{ tracker?: RelayTracker; error?: RelayError }>();
+  // Set while the buyer is writing the reason for rejecting the documents
+  const [disputeReason, setDisputeReason] = useState<string>();
+
+  // On-chain escrows are addressed by their bytes32 id; other ids are mock contracts
+  const escrowId = typeof params.id === "string" && isHex(params.id, { strict: true }) && params.id.length === 66
+    ? params.id
+    : undefined;
+  const { data: escrow, isLoading: isEscrowLoading } = useEscrow(escrowId);
+  const isEscrowBuyer = !!address && !!escrow && isAddressEqual(address, escrow.buyer);
 
   // Determine user role in this contract
   const isBuyer = currentUser.address === mockContract.buyer.address;
@@ -116,37 +149,32 @@ export default function ContractDetailPage() {
     }
   };
 
-  const handleReleaseFunds = async () => {
+  // Gasless actions answer once the relayer has sent the transaction; the
+  // escrow stream refreshes the page when it is indexed
+  const runRelay = async (
+    action: (service: GaslessTransactionService, escrowId: Hex) => Promise<RelayResult<RelayReceipt>>
+  ) => {
+    if (!gasless || !escrow) return;
     setIsProcessing(true);
+    setRelay(undefined);
     try {
-      // Will call confirmDelivery() on smart contract
-      console.log('Releasing funds...');
-      alert('Funds released successfully!');
-      router.push('/dashboard');
-    } catch (error) {
-      console.error('Error releasing funds:', error);
-      alert('Failed to release funds');
+      const result = await action(gasless, escrow.id);
+      setRelay(result.ok ? { tracker: result.data.tracker } : { error: result.error });
+      return result.ok;
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleReleaseFunds = () => runRelay((service, id) => service.confirmDelivery(id));
+
+  const handleCancelEscrow = () => runRelay((service, id) => service.cancelEscrow(id));
+
   const handleRejectDocuments = async () => {
-    setIsProcessing(true);
-    try {
-      // Will call initiateDispute() on smart contract
-      const reason = prompt('Please provide a reason for rejecting the documents:');
-      if (reason) {
-        console.log('Initiating dispute:', reason);
-        alert('Documents rejected. Dispute initiated.');
-        router.push('/dashboard');
-      }
-    } catch (error) {
-      console.error('Error rejecting documents:', error);
-      alert('Failed to reject documents');
-    } finally {
-      setIsProcessing(false);
-    }
+    const reason = disputeReason?.trim();
+    if (!reason) return;
+    const ok = await runRelay((service, id) => service.initiateDispute(id, reason));
+    if (ok) setDisputeReason(undefined);
   };
 
   return (
@@ -165,10 +193,15 @@ export default function ContractDetailPage() {
             <p className="text-gray-600">View contract details and take actions</p>
           </div>
         </div>
-        <Badge className={`${getStatusColor(mockContract.status)} px-3 py-1`}>
-          {getStatusIcon(mockContract.status)}
-          <span className="ml-2">{mockContract.status.replace('_', ' ')}</span>
-        </Badge>
+        <div className="flex items-center gap-2">
+          {escrow && isAwaitingDelivery(escrow) && (
+            <DeadlineBadge deadline={escrow.deliveryDeadline} overdue={escrow.overdue} />
+          )}
+          <Badge className={`${getStatusColor(mockContract.status)} px-3 py-1`}>
+            {getStatusIcon(mockContract.status)}
+            <span className="ml-2">{mockContract.status.replace('_', ' ')}</span>
+          </Badge>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -253,7 +286,15 @@ export default function ContractDetailPage() {
               <CardTitle>Uploaded Documents</CardTitle>
             </CardHeader>
             <CardContent>
-              {mockContract.documents.length === 0 ? (
+              {escrowId ? (
+                isEscrowLoading ? (
+                  <Skeleton className="h-24 w-full" />
+                ) : escrow ? (
+                  <EscrowDocuments chainId={escrow.chainId} documents={escrow.documents} />
+                ) : (
+                  <p className="text-gray-500 text-center py-8">This escrow has not been indexed yet</p>
+                )
+              ) : mockContract.documents.length === 0 ? (
                 <p className="text-gray-500 text-center py-8">No documents uploaded yet</p>
               ) : (
                 <div className="space-y-3">
@@ -286,8 +327,34 @@ export default function ContractDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Buyer can call off an escrow before funding it */}
+          {escrow && isEscrowBuyer && escrow.status === 'CREATED' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Ban className="h-5 w-5 text-gray-600" />
+                  Cancel Escrow
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-700">
+                  The escrow has not been funded yet, so it can still be cancelled. No funds move.
+                </p>
+                <Button
+                  onClick={handleCancelEscrow}
+                  disabled={isProcessing || !gasless}
+                  variant="outline"
+                  className="w-full"
+                >
+                  <Ban className="h-4 w-4 mr-2" />
+                  Cancel Escrow
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Buyer Actions for DOCUMENTS_PENDING */}
-          {isBuyer && mockContract.status === 'DOCUMENTS_PENDING' && (
+          {escrow && isEscrowBuyer && escrow.status === 'DOCUMENTS_PENDING' && (
             <Card className="border-blue-200 bg-blue-50">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -299,31 +366,71 @@ export default function ContractDetailPage() {
                 <p className="text-sm text-gray-700">
                   The seller has uploaded shipping documents. Please review them and take action:
                 </p>
-                <div className="flex gap-3">
-                  <Button 
-                    onClick={handleReleaseFunds}
-                    disabled={isProcessing}
-                    className="flex-1 bg-green-600 hover:bg-green-700"
-                  >
-                    <CheckCircle className="h-4 w-4 mr-2" />
-                    Release Funds to Seller
-                  </Button>
-                  <Button 
-                    onClick={handleRejectDocuments}
-                    disabled={isProcessing}
-                    variant="destructive"
-                    className="flex-1"
-                  >
-                    <XCircle className="h-4 w-4 mr-2" />
-                    Reject Documents
-                  </Button>
-                </div>
+                {disputeReason === undefined ? (
+                  <div className="flex gap-3">
+                    <Button 
+                      onClick={handleReleaseFunds}
+                      disabled={isProcessing || !gasless}
+                      className="flex-1 bg-green-600 hover:bg-green-700"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Release Funds to Seller
+                    </Button>
+                    <Button 
+                      onClick={() => setDisputeReason("")}
+                      disabled={isProcessing || !gasless}
+                      variant="destructive"
+                      className="flex-1"
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Reject Documents
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <Textarea
+                      value={disputeReason}
+                      onChange={(e) => setDisputeReason(e.target.value)}
+                      maxLength={MAX_DISPUTE_REASON_LENGTH}
+                      placeholder="Why are the documents being rejected? The reason is stored on-chain with the dispute."
+                      className="bg-white"
+                    />
+                    <div className="flex gap-3">
+                      <Button
+                        onClick={handleRejectDocuments}
+                        disabled={isProcessing || !gasless || !disputeReason.trim()}
+                        variant="destructive"
+                        className="flex-1"
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Open Dispute
+                      </Button>
+                      <Button
+                        onClick={() => setDisputeReason(undefined)}
+                        disabled={isProcessing}
+                        variant="outline"
+                        className="flex-1"
+                      >
+                        Back
+                      </Button>
+                    </div>
+                  </div>
+                )}
                 <p className="text-xs text-gray-600 text-center">
                   Releasing funds will complete the transaction. Rejecting will initiate a dispute.
+                  Both are gasless: you only sign.
                 </p>
               </CardContent>
             </Card>
           )}
+
+          {escrow && relay && (
+            <Card>
+              <CardContent className="pt-6">
+                <RelayProgress chainId={escrow.chainId} tracker={relay.tracker} error={relay.error} />
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Sidebar */}
@@ -334,24 +441,34 @@ export default function ContractDetailPage() {
               <CardTitle>Timeline</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {mockContract.timeline.map((event, index) => (
-                  <div key={index} className="flex gap-3">
-                    <div className="mt-1">
-                      <div className="h-2 w-2 rounded-full bg-blue-600" />
-                      {index < mockContract.timeline.length - 1 && (
-                        <div className="h-12 w-0.5 bg-gray-200 ml-0.5 mt-1" />
-                      )}
-                    </div>
-                    <div className="flex-1">
-                      <p className="font-medium text-sm">{event.event}</p>
-                      <p className="text-xs text-gray-600">
-                        {formatDistanceToNow(new Date(event.date), { addSuffix: true })}
-                      </p>
+              {escrowId ? (
+                isEscrowLoading ? (
+                  <Skeleton className="h-40 w-full" />
+                ) : escrow ? (
+                  <EscrowTimeline chainId={escrow.chainId} events={escrow.events} />
+                ) : (
+                  <p className="text-sm text-gray-500">This escrow has not been indexed yet</p>
+                )
+              ) : (
+                <div className="space-y-4">
+                  {mockContract.timeline.map((event, index) => (
+                    <div key={index} className="flex gap-3">
+                      <div className="mt-1">
+                        <div className="h-2 w-2 rounded-full bg-blue-600" />
+                        {index < mockContract.timeline.length - 1 && (
+                          <div className="h-12 w-0.5 bg-gray-200 ml-0.5 mt-1" />
+                        )}
+                      </div>
+                      <div className="flex-1">
+                        <p className="font-medium text-sm">{event.event}</p>
+                        <p className="text-xs text-gray-600">
+                          {formatDistanceToNow(new Date(event.date), { addSuffix: true })}
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
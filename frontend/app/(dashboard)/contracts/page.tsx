@@ -22,7 +22,8 @@ import {
   Truck,
   Users
 } from "lucide-react";
-import { getCurrentUser, getContractsByUser } from "@/lib/mock-data";
+import { getCurrentUser, getContractsByUser, isAwaitingDelivery } from "@/lib/mock-data";
+import { DeadlineBadge } from "@/components/escrow/deadline-badge";
 import { formatDistanceToNow } from "date-fns";
 import Link from "next/link";
 
@@ -251,6 +252,13 @@ export default function ContractsPage() {
                       <span className="ml-1 capitalize">{contract.status}</span>
                     </Badge>
                     <p className="text-xs text-gray-600 font-medium">{contract.period}</p>
+                    {isAwaitingDelivery(contract) && (
+                      <DeadlineBadge
+                        deadline={contract.deliveryDeadline}
+                        overdue={contract.overdue}
+                        className="mt-2"
+                      />
+                    )}
                   </div>
 
                   <div className="flex items-center gap-1">
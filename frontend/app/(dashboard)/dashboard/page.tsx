@@ -4,22 +4,16 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { 
-  XAxis, 
-  YAxis, 
-  ResponsiveContainer,
-  LineChart,
-  Line,
-  Tooltip
-} from "recharts";
 import { 
   getCurrentUser, 
   getContractsByUser, 
   getTransactionsByUser,
-  mockEarningsData,
-  mockUsers
+  isAwaitingDelivery
 } from "@/lib/mock-data";
 import { formatDistanceToNow } from "date-fns";
+import { DeadlineBadge } from "@/components/escrow/deadline-badge";
+import { EarningsChart } from "@/components/dashboard/earnings-chart";
+import { TopPartners } from "@/components/dashboard/top-partners";
 import { 
   TrendingUp, 
   DollarSign, 
@@ -37,9 +31,11 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { useState } from "react";
+import { useAccount } from "wagmi";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 export default function DashboardPage() {
+  const { address } = useAccount();
   const currentUser = getCurrentUser();
   const userContracts = getContractsByUser(currentUser.id);
   const userTransactions = getTransactionsByUser(currentUser.id);
@@ -272,6 +268,11 @@ export default function DashboardPage() {
                       <Badge className={`${getStatusColor(contract.status)} border font-medium`}>
                         {contract.status}
                       </Badge>
+                      {isAwaitingDelivery(contract) && (
+                        <div className="mt-2">
+                          <DeadlineBadge deadline={contract.deliveryDeadline} overdue={contract.overdue} />
+                        </div>
+                      )}
                       <div className="flex items-center gap-1 mt-2">
                         <Link href={`/contracts/${contract.id}`}>
                           <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
@@ -337,74 +338,10 @@ export default function DashboardPage() {
         {/* Right Column - Analytics and Contacts */}
         <div className="space-y-8">
           {/* Earnings Chart */}
-          <Card className="border-0 shadow-lg">
-            <CardHeader className="pb-4">
-              <CardTitle className="text-xl font-semibold text-gray-900">Earnings Overview</CardTitle>
-              <p className="text-sm text-gray-600">Last 6 months performance</p>
-            </CardHeader>
-            <CardContent>
-              <ResponsiveContainer width="100%" height={200}>
-                <LineChart data={mockEarningsData}>
-                  <XAxis 
-                    dataKey="month" 
-                    axisLine={false}
-                    tickLine={false}
-                    tick={{ fontSize: 12, fill: '#6b7280' }}
-                  />
-                  <YAxis hide />
-                  <Tooltip 
-                    contentStyle={{
-                      backgroundColor: 'white',
-                      border: '1px solid #e5e7eb',
-                      borderRadius: '8px',
-                      boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'
-                    }}
-                  />
-                  <Line 
-                    type="monotone" 
-                    dataKey="earnings" 
-                    stroke="#3b82f6" 
-                    strokeWidth={3}
-                    dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
-                    activeDot={{ r: 6, stroke: '#3b82f6', strokeWidth: 2, fill: 'white' }}
-                  />
-                </LineChart>
-              </ResponsiveContainer>
-            </CardContent>
-          </Card>
+          <EarningsChart address={address} />
 
-          {/* Top Clients */}
-          <Card className="border-0 shadow-lg">
-            <CardHeader className="pb-4">
-              <CardTitle className="text-xl font-semibold text-gray-900">Top Clients</CardTitle>
-              <p className="text-sm text-gray-600">Your most valuable partners</p>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {mockUsers.slice(1, 4).map((user) => (
-                <div key={user.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg hover-lift">
-                  <Avatar className="h-10 w-10 border-2 border-white shadow-sm">
-                    <AvatarImage src={user.avatar} />
-                    <AvatarFallback className="bg-blue-100 text-blue-700 font-semibold">
-                      {user.name.substring(0, 2).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="flex-1">
-                    <p className="font-medium text-gray-900">{user.company}</p>
-                    <div className="flex items-center gap-1 text-sm text-gray-600">
-                      <Globe className="h-3 w-3" />
-                      <span>{user.country}</span>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <p className="text-sm font-semibold text-gray-900">
-                      ${Math.floor(Math.random() * 50000 + 10000).toLocaleString()}
-                    </p>
-                    <p className="text-xs text-gray-500">Total value</p>
-                  </div>
-                </div>
-              ))}
-            </CardContent>
-          </Card>
+          {/* Top Partners */}
+          <TopPartners address={address} />
         </div>
       </div>
     </div>
@@ -0,0 +1,179 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { useAccount } from "wagmi";
+import { formatDistanceStrict, formatDistanceToNow } from "date-fns";
+import { AlertCircle, ArrowLeft, CheckCircle, Clock, FileText, Gavel } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { EscrowTimeline } from "@/components/escrow/escrow-timeline";
+import { useDispute } from "@/hooks/use-disputes";
+import { useTokenFormatter } from "@/hooks/use-tokens";
+import { shortenAddress } from "@/lib/utils";
+
+export default function DisputeDetailPage() {
+  const params = useParams<{ id: string }>();
+  const { address } = useAccount();
+  const { data: dispute, isLoading, isError } = useDispute(params.id);
+  const { format: formatAmount } = useTokenFormatter();
+
+  const isYou = (party: string) => address?.toLowerCase() === party.toLowerCase();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-12 w-72" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !dispute) {
+    return (
+      <div className="text-center py-16">
+        <AlertCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Dispute not found</h3>
+        <p className="text-gray-500 mb-4">This escrow has no dispute, or the indexer is unavailable.</p>
+        <Link href="/disputes">
+          <Button variant="outline">Back to Disputes</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const isOpen = dispute.status === "OPEN";
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/disputes">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Disputes
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">Dispute on {shortenAddress(dispute.escrowId)}</h1>
+            <p className="text-gray-600">
+              Raised {formatDistanceToNow(new Date(dispute.initiatedAt * 1000), { addSuffix: true })}
+            </p>
+          </div>
+        </div>
+        <Badge className={`${isOpen ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"} px-3 py-1`}>
+          {isOpen ? <AlertCircle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+          <span className="ml-2">{isOpen ? "OPEN" : "RESOLVED"}</span>
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main Content */}
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gavel className="h-5 w-5 text-red-600" />
+                Dispute
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Reason</p>
+                <p className="mt-1">{dispute.reason}</p>
+              </div>
+              <Separator />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <p className="text-sm font-medium text-gray-600 mb-1">Raised by</p>
+                  <p className="font-semibold capitalize">{dispute.initiatorRole}</p>
+                  <p className="text-xs text-gray-500 font-mono">{dispute.initiator}</p>
+                  {isYou(dispute.initiator) && (
+                    <Badge variant="outline" className="mt-2">You</Badge>
+                  )}
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600 mb-1">Raised on</p>
+                  <p className="text-sm">{new Date(dispute.initiatedAt * 1000).toLocaleString()}</p>
+                  <p className="text-xs text-gray-500 font-mono break-all">{dispute.transactionHash}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className={isOpen ? "border-orange-200 bg-orange-50" : "border-green-200 bg-green-50"}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {isOpen ? <Clock className="h-5 w-5 text-orange-600" /> : <CheckCircle className="h-5 w-5 text-green-600" />}
+                Outcome
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {isOpen ? (
+                <p className="text-sm text-gray-700">
+                  Awaiting resolution by the platform. Funds stay locked in escrow until then, open for{" "}
+                  {formatDistanceToNow(new Date(dispute.initiatedAt * 1000))}.
+                </p>
+              ) : (
+                <>
+                  <p className="font-semibold">
+                    {dispute.refundedBuyer
+                      ? "The buyer was refunded in full"
+                      : "Payment was released to the seller"}
+                  </p>
+                  <p className="text-sm text-gray-700">
+                    Resolved on {new Date(dispute.resolvedAt! * 1000).toLocaleString()}, after{" "}
+                    {formatDistanceStrict(0, dispute.resolutionTime! * 1000)}.
+                  </p>
+                  <p className="text-xs text-gray-500 font-mono break-all">{dispute.resolutionTransactionHash}</p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <EscrowTimeline chainId={dispute.chainId} events={dispute.events} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Escrow</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <p className="text-sm text-gray-600">Amount</p>
+                <p className="text-lg font-bold">{formatAmount(dispute.amount, dispute.chainId, dispute.token)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Buyer{isYou(dispute.buyer) && " (you)"}</p>
+                <p className="font-mono text-sm">{shortenAddress(dispute.buyer)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Seller{isYou(dispute.seller) && " (you)"}</p>
+                <p className="font-mono text-sm">{shortenAddress(dispute.seller)}</p>
+              </div>
+              <Link href={`/contracts/${dispute.escrowId}`}>
+                <Button variant="outline" size="sm" className="w-full mt-2">
+                  <FileText className="h-4 w-4 mr-2" />
+                  View Contract
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
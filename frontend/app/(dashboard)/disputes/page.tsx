@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useAccount } from "wagmi";
+import { formatDistanceStrict, formatDistanceToNow } from "date-fns";
+import { AlertCircle, CheckCircle, Eye, Gavel, Loader2, ShoppingCart, Store, Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useDisputes } from "@/hooks/use-disputes";
+import { useTokenFormatter } from "@/hooks/use-tokens";
+import type { Dispute } from "@/lib/indexer";
+import { shortenAddress } from "@/lib/utils";
+
+export default function DisputesPage() {
+  const { address } = useAccount();
+  const [scope, setScope] = useState<"mine" | "all">("mine");
+  const [status, setStatus] = useState<"all" | Dispute["status"]>("all");
+
+  // Without a wallet, "mine" has no address to filter by and would list everyone's
+  const needsWallet = scope === "mine" && !address;
+  const { data, isLoading, isError, hasNextPage, fetchNextPage, isFetchingNextPage } = useDisputes(
+    {
+      address: scope === "mine" ? address : undefined,
+      status: status === "all" ? undefined : status,
+    },
+    { enabled: !needsWallet }
+  );
+  const disputes = data?.pages.flatMap((page) => page.items) ?? [];
+  const { format: formatAmount } = useTokenFormatter();
+
+  const getOutcome = (dispute: Dispute) => {
+    if (dispute.status === "OPEN") {
+      return (
+        <Badge className="bg-red-100 text-red-800 border-red-200 border font-medium">
+          <AlertCircle className="h-3 w-3" />
+          Open
+        </Badge>
+      );
+    }
+    return (
+      <Badge className="bg-green-100 text-green-800 border-green-200 border font-medium">
+        <CheckCircle className="h-3 w-3" />
+        {dispute.refundedBuyer ? "Refunded to buyer" : "Released to seller"}
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="content-spacing">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Disputes</h1>
+        <p className="text-gray-600 text-lg">
+          Review why escrows were disputed and how each dispute was resolved
+        </p>
+      </div>
+
+      <Card className="modern-card">
+        <CardHeader className="pb-6">
+          <div className="flex-between">
+            <div>
+              <CardTitle className="text-2xl font-bold text-gray-900 mb-2">Dispute History</CardTitle>
+              <p className="text-gray-600">
+                {scope === "mine" ? "Disputes on escrows you are part of" : "Every dispute on the platform"}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Tabs value={scope} onValueChange={(value) => setScope(value as "mine" | "all")}>
+                <TabsList>
+                  <TabsTrigger value="mine">Mine</TabsTrigger>
+                  <TabsTrigger value="all">All</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+                <SelectTrigger className="w-36 rounded-xl border-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Status</SelectItem>
+                  <SelectItem value="OPEN">Open</SelectItem>
+                  <SelectItem value="RESOLVED">Resolved</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0">
+          {needsWallet ? (
+            <div className="text-center py-12">
+              <Wallet className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-xl font-medium text-gray-900 mb-2">Connect your wallet</h3>
+              <p className="text-gray-600">Connect a wallet to see disputes on your escrows</p>
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-4">
+              {[0, 1, 2].map((i) => (
+                <Skeleton key={i} className="h-20 w-full rounded-xl" />
+              ))}
+            </div>
+          ) : isError ? (
+            <div className="text-center py-12">
+              <AlertCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">Disputes could not be loaded. Please try again later.</p>
+            </div>
+          ) : disputes.length === 0 ? (
+            <div className="text-center py-12">
+              <Gavel className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-xl font-medium text-gray-900 mb-2">No disputes</h3>
+              <p className="text-gray-600">Disputed escrows will show up here</p>
+            </div>
+          ) : (
+            <div className="card-spacing">
+              {disputes.map((dispute) => (
+                <div key={`${dispute.chainId}-${dispute.escrowId}`} className="contract-item">
+                  <div className="flex items-center gap-6 min-w-0">
+                    <div className="h-12 w-12 bg-red-50 rounded-xl flex items-center justify-center shrink-0">
+                      <Gavel className="h-6 w-6 text-red-600" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900 font-mono">{shortenAddress(dispute.escrowId)}</p>
+                      <p className="text-sm text-gray-600 truncate max-w-md">&ldquo;{dispute.reason}&rdquo;</p>
+                      <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                        <Badge variant="outline" className="text-xs">
+                          {dispute.initiatorRole === "buyer" ? (
+                            <><ShoppingCart className="h-3 w-3" /> Raised by buyer</>
+                          ) : (
+                            <><Store className="h-3 w-3" /> Raised by seller</>
+                          )}
+                        </Badge>
+                        <span>{formatDistanceToNow(new Date(dispute.initiatedAt * 1000), { addSuffix: true })}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-6">
+                    <div className="text-right">
+                      <div className="text-xl font-bold text-gray-900">{formatAmount(dispute.amount, dispute.chainId, dispute.token)}</div>
+                      {dispute.resolutionTime !== null && (
+                        <p className="text-xs text-gray-600">
+                          Resolved in {formatDistanceStrict(0, dispute.resolutionTime * 1000)}
+                        </p>
+                      )}
+                    </div>
+                    {getOutcome(dispute)}
+                    <Link href={`/disputes/${dispute.escrowId}`}>
+                      <Button variant="ghost" size="sm" className="hover:bg-blue-50 hover:text-blue-700">
+                        <Eye className="h-4 w-4 mr-1" />
+                        View
+                      </Button>
+                    </Link>
+                  </div>
+                </div>
+              ))}
+
+              {hasNextPage && (
+                <div className="text-center pt-2">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
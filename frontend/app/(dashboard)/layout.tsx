@@ -5,16 +5,20 @@ import { Sidebar } from "@/components/layout/sidebar";
 import { useAccount } from "wagmi";
 import { useRouter } from "next/navigation";
 import { Loader2 } from "lucide-react";
+import { useEscrowStream } from "@/hooks/use-escrow-stream";
 
 export default function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const { isConnected } = useAccount();
+  const { address, isConnected } = useAccount();
   const router = useRouter();
   const [mounted, setMounted] = React.useState(false);
 
+  // Keep escrow data on every dashboard page in sync with the chain
+  useEscrowStream({ address });
+
   // Handle mounting to avoid hydration issues
   React.useEffect(() => {
     setMounted(true);
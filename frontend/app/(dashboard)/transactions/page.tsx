@@ -5,8 +5,9 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, Download, Filter, ArrowUpRight, ArrowDownLeft, DollarSign, Send, Wallet, FileText } from "lucide-react";
+import { Search, Filter, ArrowUpRight, ArrowDownLeft, DollarSign, Send, Wallet, FileText } from "lucide-react";
 import { getCurrentUser, getTransactionsByUser } from "@/lib/mock-data";
+import { ExportButton } from "@/components/transactions/export-button";
 import { formatDistanceToNow } from "date-fns";
 
 export default function TransactionsPage() {
@@ -43,10 +44,7 @@ export default function TransactionsPage() {
           <h1 className="text-2xl font-bold">Transactions</h1>
           <p className="text-gray-600">View all your payment history and activities</p>
         </div>
-        <Button variant="outline">
-          <Download className="h-4 w-4 mr-2" />
-          Export
-        </Button>
+        <ExportButton />
       </div>
 
       {/* Filters */}
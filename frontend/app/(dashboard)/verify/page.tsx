@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, type DragEvent } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { CheckCircle, ExternalLink, FileSearch, Loader2, Upload, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useDocument } from "@/hooks/use-document";
+import { useTokenFormatter } from "@/hooks/use-tokens";
+import { explorerTxUrl, hashDocument, shortenAddress } from "@/lib/utils";
+
+export default function VerifyDocumentPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [documentHash, setDocumentHash] = useState<`0x${string}`>();
+  const [isHashing, setIsHashing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const { data: anchors, isLoading, isError } = useDocument(documentHash);
+  const { format: formatAmount } = useTokenFormatter();
+
+  // The file never leaves the browser; only its hash is sent to the indexer
+  const selectFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    setDocumentHash(undefined);
+    setIsHashing(true);
+    try {
+      setDocumentHash(await hashDocument(selected));
+    } finally {
+      setIsHashing(false);
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    selectFile(event.dataTransfer.files[0]);
+  };
+
+  return (
+    <div className="content-spacing">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Verify Document</h1>
+        <p className="text-gray-600 text-lg">
+          Check whether a document was anchored to an escrow and which deal it belongs to
+        </p>
+      </div>
+
+      <Card className="modern-card">
+        <CardContent className="pt-6">
+          <input
+            id="document"
+            type="file"
+            onChange={(e) => selectFile(e.target.files?.[0])}
+            className="hidden"
+          />
+          <label
+            htmlFor="document"
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`block border-2 border-dashed rounded-lg p-10 text-center cursor-pointer transition-colors ${
+              isDragging ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:border-blue-400"
+            }`}
+          >
+            <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+            {file ? (
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-gray-900">{file.name}</p>
+                <p className="text-xs text-gray-500">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm font-medium text-gray-700">Click to select or drag and drop a file</p>
+                <p className="text-xs text-gray-500 mt-1">It is hashed in your browser and never uploaded</p>
+              </>
+            )}
+          </label>
+          {documentHash && (
+            <div className="mt-4">
+              <p className="text-sm text-gray-600">Document hash (keccak256)</p>
+              <p className="font-mono text-sm break-all">{documentHash}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {(isHashing || isLoading) && (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {isHashing ? "Hashing document..." : "Looking up document..."}
+        </div>
+      )}
+
+      {isError && (
+        <Card className="modern-card">
+          <CardContent className="py-8 text-center text-gray-600">
+            The document could not be checked right now. Please try again.
+          </CardContent>
+        </Card>
+      )}
+
+      {anchors && anchors.length === 0 && (
+        <Card className="modern-card">
+          <CardContent className="py-12 text-center">
+            <XCircle className="h-16 w-16 text-red-300 mx-auto mb-4" />
+            <h3 className="text-xl font-medium text-gray-900 mb-2">Not anchored</h3>
+            <p className="text-gray-600">
+              This exact file was never uploaded to an escrow. Any change to the file, even
+              re-saving it, produces a different hash.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {anchors && anchors.length > 0 && (
+        <Card className="modern-card">
+          <CardHeader className="pb-6">
+            <div className="flex items-center gap-3">
+              <CheckCircle className="h-6 w-6 text-green-600" />
+              <div>
+                <CardTitle className="text-2xl font-bold text-gray-900">Document verified</CardTitle>
+                <p className="text-gray-600">
+                  Anchored to {anchors.length} {anchors.length === 1 ? "escrow" : "escrows"}
+                </p>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <div className="card-spacing">
+              {anchors.map((anchor) => {
+                const txUrl = explorerTxUrl(anchor.chainId, anchor.transactionHash);
+                return (
+                  <div key={`${anchor.chainId}-${anchor.escrowId}-${anchor.position}`} className="contract-item">
+                    <div className="flex items-center gap-4">
+                      <div className="h-12 w-12 rounded-full bg-green-100 flex items-center justify-center">
+                        <FileSearch className="h-6 w-6 text-green-600" />
+                      </div>
+                      <div>
+                        <p className="font-semibold text-gray-900 font-mono">{shortenAddress(anchor.escrowId)}</p>
+                        <p className="text-sm text-gray-600">
+                          Uploaded by {shortenAddress(anchor.uploader)} on{" "}
+                          {format(new Date(anchor.timestamp * 1000), "PPp")}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Buyer {shortenAddress(anchor.escrow.buyer)} · Seller {shortenAddress(anchor.escrow.seller)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-6">
+                      <div className="text-right">
+                        <div className="text-xl font-bold text-gray-900">
+                          {formatAmount(anchor.escrow.amount, anchor.chainId, anchor.escrow.token)}
+                        </div>
+                        <Badge variant="outline" className="mt-1">{anchor.escrow.status}</Badge>
+                      </div>
+                      <div className="text-right text-sm">
+                        <p className="text-gray-600">Block {anchor.blockNumber.toLocaleString()}</p>
+                        {txUrl && (
+                          <a
+                            href={txUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                          >
+                            View transaction
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </div>
+                      <Link href={`/contracts/${anchor.escrowId}`}>
+                        <Button variant="ghost" size="sm">View escrow</Button>
+                      </Link>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
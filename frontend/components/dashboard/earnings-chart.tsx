@@ -0,0 +1,136 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { formatUnits } from "viem";
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useTokenFormatter } from "@/hooks/use-tokens";
+import { useVolume } from "@/hooks/use-volume";
+import type { VolumeBucket, VolumeGranularity } from "@/lib/indexer";
+
+const DAY = 86_400;
+
+const periods = {
+  "30d": { label: "Last 30 days", granularity: "day", count: 30 },
+  "90d": { label: "Last 90 days", granularity: "day", count: 90 },
+  "12m": { label: "Last 12 months", granularity: "month", count: 12 },
+} as const satisfies Record<string, { label: string; granularity: VolumeGranularity; count: number }>;
+
+type Period = keyof typeof periods;
+
+// Bucket starts (unix seconds, UTC) covering the period, oldest first
+function bucketStarts(granularity: VolumeGranularity, count: number) {
+  const now = new Date();
+  return Array.from({ length: count }, (_, i) => {
+    const offset = count - 1 - i;
+    if (granularity === "day") {
+      return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) / 1000 - offset * DAY;
+    }
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - offset, 1) / 1000;
+  });
+}
+
+function formatBucket(periodStart: number, granularity: VolumeGranularity) {
+  return new Date(periodStart * 1000).toLocaleDateString("en-US", {
+    month: "short",
+    day: granularity === "day" ? "numeric" : undefined,
+    timeZone: "UTC",
+  });
+}
+
+// Sums released volume per bucket and fills periods without activity with 0.
+// Each token is scaled by its own decimals before summing.
+function toChartData(
+  items: VolumeBucket[],
+  starts: number[],
+  granularity: VolumeGranularity,
+  decimalsOf: (chainId: number, token: string) => number
+) {
+  const released = new Map<number, number>();
+  for (const item of items) {
+    const amount = Number(formatUnits(BigInt(item.releasedVolume), decimalsOf(item.chainId, item.token)));
+    released.set(item.periodStart, (released.get(item.periodStart) ?? 0) + amount);
+  }
+  return starts.map((periodStart) => ({
+    label: formatBucket(periodStart, granularity),
+    earnings: released.get(periodStart) ?? 0,
+  }));
+}
+
+export function EarningsChart({ address }: { address?: string }) {
+  const [period, setPeriod] = useState<Period>("30d");
+  const { granularity, count, label } = periods[period];
+
+  const starts = useMemo(() => bucketStarts(granularity, count), [granularity, count]);
+  const { data, isLoading, isError } = useVolume(address, { granularity, from: starts[0] });
+  const { decimalsOf } = useTokenFormatter();
+
+  const chartData = useMemo(
+    () => toChartData(data?.items ?? [], starts, granularity, decimalsOf),
+    [data, starts, granularity, decimalsOf]
+  );
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-xl font-semibold text-gray-900">Earnings Overview</CardTitle>
+            <p className="text-sm text-gray-600">Payments released to you, {label.toLowerCase()}</p>
+          </div>
+          <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+            <SelectTrigger className="w-24 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(periods) as Period[]).map((key) => (
+                <SelectItem key={key} value={key}>{key}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[200px] w-full" />
+        ) : isError ? (
+          <div className="h-[200px] flex items-center justify-center text-sm text-gray-500">
+            Earnings are unavailable right now
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={chartData}>
+              <XAxis
+                dataKey="label"
+                axisLine={false}
+                tickLine={false}
+                minTickGap={16}
+                tick={{ fontSize: 12, fill: '#6b7280' }}
+              />
+              <YAxis hide />
+              <Tooltip
+                formatter={(value) => [`$${Number(value).toLocaleString()}`, "Earnings"]}
+                contentStyle={{
+                  backgroundColor: 'white',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '8px',
+                  boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'
+                }}
+              />
+              <Line
+                type="monotone"
+                dataKey="earnings"
+                stroke="#3b82f6"
+                strokeWidth={3}
+                dot={granularity === "month" ? { fill: '#3b82f6', strokeWidth: 2, r: 4 } : false}
+                activeDot={{ r: 6, stroke: '#3b82f6', strokeWidth: 2, fill: 'white' }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
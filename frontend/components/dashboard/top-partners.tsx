@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertCircle } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCounterparties } from "@/hooks/use-counterparties";
+import type { Counterparty, CounterpartySort } from "@/lib/indexer";
+import { shortenAddress } from "@/lib/utils";
+
+const sorts: Record<CounterpartySort, string> = {
+  volume: "Volume",
+  escrows: "Escrows",
+  disputes: "Disputes",
+  recent: "Recent",
+};
+
+// The headline figure on the right follows the selected ranking
+function headline(partner: Counterparty, sort: CounterpartySort) {
+  switch (sort) {
+    case "escrows":
+      return { value: partner.escrowCount.toLocaleString(), label: "Escrows" };
+    case "disputes":
+      return { value: partner.disputeCount.toLocaleString(), label: "Disputes" };
+    case "recent":
+      return {
+        value: formatDistanceToNow(new Date(partner.lastActivityAt * 1000), { addSuffix: true }),
+        label: "Last activity",
+      };
+    default:
+      return {
+        value: `$${Number(partner.settledVolume).toLocaleString(undefined, { maximumFractionDigits: 2 })}`,
+        label: "Settled volume",
+      };
+  }
+}
+
+export function TopPartners({ address }: { address?: string }) {
+  const [sort, setSort] = useState<CounterpartySort>("volume");
+  const { data, isLoading, isError } = useCounterparties(address, { sort, limit: 3 });
+  const partners = data?.items ?? [];
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-xl font-semibold text-gray-900">Top Partners</CardTitle>
+            <p className="text-sm text-gray-600">Who you trade with most</p>
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as CounterpartySort)}>
+            <SelectTrigger className="w-28 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(sorts) as CounterpartySort[]).map((key) => (
+                <SelectItem key={key} value={key}>{sorts[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          Array.from({ length: 3 }, (_, i) => <Skeleton key={i} className="h-16 w-full" />)
+        ) : isError ? (
+          <p className="text-sm text-gray-500">Partners are unavailable right now</p>
+        ) : partners.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {address ? "No escrows yet" : "Connect your wallet to see your partners"}
+          </p>
+        ) : (
+          partners.map((partner) => {
+            const { value, label } = headline(partner, sort);
+            return (
+              <div
+                key={`${partner.chainId}-${partner.address}`}
+                className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg hover-lift"
+              >
+                <Avatar className="h-10 w-10 border-2 border-white shadow-sm">
+                  <AvatarFallback className="bg-blue-100 text-blue-700 font-semibold">
+                    {partner.address.slice(2, 4).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 font-mono">{shortenAddress(partner.address)}</p>
+                  <div className="flex items-center gap-1 text-sm text-gray-600">
+                    <span>
+                      {partner.escrowCount} {partner.escrowCount === 1 ? "escrow" : "escrows"}
+                    </span>
+                    {partner.disputeCount > 0 && (
+                      <span className="flex items-center gap-1 text-red-600">
+                        <AlertCircle className="h-3 w-3" />
+                        {partner.disputeCount} disputed
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-semibold text-gray-900">{value}</p>
+                  <p className="text-xs text-gray-500">{label}</p>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
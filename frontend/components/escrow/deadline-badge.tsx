@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDistanceToNowStrict } from "date-fns";
+import { AlertTriangle, Timer } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+// Under this much time left the countdown turns amber
+const DUE_SOON_MS = 2 * 24 * 60 * 60 * 1000;
+
+interface DeadlineBadgeProps {
+  // Unix seconds, as the indexer returns deliveryDeadline, or a date
+  deadline: string | number | Date;
+  // Flag from the indexer. It is only set when a block is indexed, so the
+  // clock can show a passed deadline before it catches up.
+  overdue?: boolean;
+  className?: string;
+}
+
+/**
+ * Countdown to an escrow's delivery deadline, or an overdue badge once it has
+ * passed. Only render it for escrows still awaiting delivery.
+ */
+export function DeadlineBadge({ deadline, overdue, className }: DeadlineBadgeProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const deadlineDate = typeof deadline === "number" ? new Date(deadline * 1000) : new Date(deadline);
+  const remaining = deadlineDate.getTime() - now;
+  const isOverdue = overdue || remaining < 0;
+
+  if (isOverdue) {
+    return (
+      <Badge className={cn("bg-red-100 text-red-800 border-red-200 border font-medium", className)}>
+        <AlertTriangle className="h-3 w-3" />
+        Overdue {formatDistanceToNowStrict(deadlineDate)}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        remaining < DUE_SOON_MS ? "border-amber-200 text-amber-700" : "text-gray-600",
+        className
+      )}
+    >
+      <Timer className="h-3 w-3" />
+      Due in {formatDistanceToNowStrict(deadlineDate)}
+    </Badge>
+  );
+}
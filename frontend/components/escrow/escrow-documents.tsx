@@ -0,0 +1,67 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { ExternalLink, FileText, Zap } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { EscrowDocument } from "@/lib/indexer";
+import { explorerTxUrl, shortenAddress } from "@/lib/utils";
+
+interface EscrowDocumentsProps {
+  chainId: number;
+  documents: EscrowDocument[];
+}
+
+/**
+ * Document hashes anchored to an escrow, in upload order. Only the hash is on
+ * chain; the file itself is checked on the Verify Document page.
+ */
+export function EscrowDocuments({ chainId, documents }: EscrowDocumentsProps) {
+  if (documents.length === 0) {
+    return <p className="text-gray-500 text-center py-8">No documents uploaded yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {documents.map((doc) => {
+        const txUrl = explorerTxUrl(chainId, doc.transactionHash);
+        return (
+          <div key={doc.position} className="flex items-center justify-between p-4 border rounded-lg">
+            <div className="flex items-center gap-3">
+              <FileText className="h-8 w-8 text-blue-600" />
+              <div>
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">Document {doc.position + 1}</p>
+                  {doc.relayed && (
+                    <Badge
+                      className="bg-amber-100 text-amber-800 border-amber-200 px-1.5 py-0 text-[10px]"
+                      title={`Gas paid by relayer ${doc.submitter}`}
+                    >
+                      <Zap className="h-3 w-3 mr-0.5" />
+                      Sponsored
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600">
+                  Uploaded by {shortenAddress(doc.uploader)}{" "}
+                  {formatDistanceToNow(new Date(doc.timestamp * 1000), { addSuffix: true })}
+                </p>
+                <p className="text-xs text-gray-500 font-mono break-all">Hash: {doc.documentHash}</p>
+              </div>
+            </div>
+            {txUrl && (
+              <a
+                href={txUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline shrink-0"
+              >
+                View transaction
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { ExternalLink, Zap } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { EscrowEvent, EscrowEventType } from "@/lib/indexer";
+import { explorerTxUrl, shortenAddress } from "@/lib/utils";
+
+const eventLabels: Record<EscrowEventType, string> = {
+  CREATED: "Contract Created",
+  FUNDED: "Contract Funded",
+  DOCUMENT_UPLOADED: "Document Uploaded",
+  DELIVERY_CONFIRMED: "Delivery Confirmed",
+  PAYMENT_RELEASED: "Payment Released",
+  CANCELLED: "Contract Cancelled",
+  DISPUTED: "Dispute Raised",
+};
+
+interface EscrowTimelineProps {
+  chainId: number;
+  events: EscrowEvent[];
+}
+
+/**
+ * Indexed escrow events in on-chain order. Each step links to its transaction
+ * and is marked as sponsored when it was submitted through the relayer.
+ */
+export function EscrowTimeline({ chainId, events }: EscrowTimelineProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No activity yet</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {events.map((event, index) => {
+        const txUrl = explorerTxUrl(chainId, event.transactionHash);
+        return (
+          <div key={event.id} className="flex gap-3">
+            <div className="mt-1">
+              <div className={`h-2 w-2 rounded-full ${event.type === "DISPUTED" ? "bg-red-600" : "bg-blue-600"}`} />
+              {index < events.length - 1 && (
+                <div className="h-12 w-0.5 bg-gray-200 ml-0.5 mt-1" />
+              )}
+            </div>
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <p className="font-medium text-sm">{eventLabels[event.type]}</p>
+                {event.relayed && (
+                  <Badge
+                    className="bg-amber-100 text-amber-800 border-amber-200 px-1.5 py-0 text-[10px]"
+                    title={`Gas paid by relayer ${event.sender}`}
+                  >
+                    <Zap className="h-3 w-3 mr-0.5" />
+                    Sponsored
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-gray-600">
+                {formatDistanceToNow(new Date(event.timestamp * 1000), { addSuffix: true })}
+              </p>
+              {txUrl ? (
+                <a
+                  href={txUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs font-mono text-blue-600 hover:underline"
+                >
+                  {shortenAddress(event.transactionHash)}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              ) : (
+                <p className="text-xs font-mono text-gray-500">{shortenAddress(event.transactionHash)}</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
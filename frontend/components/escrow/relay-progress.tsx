@@ -0,0 +1,88 @@
+"use client";
+
+import { AlertCircle, CheckCircle, ExternalLink, Loader2, XCircle } from "lucide-react";
+import { useRelayStatus } from "@/hooks/use-gasless";
+import type { RelayError, RelayErrorCode, RelayStatus, RelayTracker } from "@/lib/gasless";
+import { explorerTxUrl } from "@/lib/utils";
+
+const statusLabels: Record<RelayStatus, string> = {
+  submitted: "Sent, waiting to be mined",
+  mined: "Mined, waiting for confirmations",
+  confirmed: "Confirmed",
+  reverted: "The transaction reverted",
+};
+
+const errorMessages: Record<RelayErrorCode, (error: RelayError) => string> = {
+  UNAUTHORIZED: () => "The relayer did not accept this app's API key",
+  RATE_LIMITED: () => "The relayer is busy. Please try again in a moment.",
+  BAD_REQUEST: (error) => `The relayer rejected the request: ${error.message}`,
+  INVALID_SIGNATURE: () => "The signature did not match. Please try again.",
+  REVERTED: (error) => `The contract rejected the action: ${error.reason ?? error.message}`,
+  RELAY_FAILED: (error) => `The action could not be relayed: ${error.message}`,
+  CHAIN_MISMATCH: () => "Switch your wallet to the escrow's network and try again",
+  WALLET_UNAVAILABLE: () => "Connect a wallet to sign this action",
+  USER_REJECTED: () => "You declined the signature request",
+  OUTCOME_UNKNOWN: (error) =>
+    `The transaction was sent, but its outcome could not be read: ${error.message}`,
+};
+
+interface RelayProgressProps {
+  chainId: number;
+  // From a successful action's receipt
+  tracker?: RelayTracker;
+  // From a failed action's result
+  error?: RelayError;
+}
+
+/**
+ * Progress of a gasless action: the failure when the relay did not go
+ * through, and the transaction's status until it is confirmed when one was
+ * sent.
+ */
+export function RelayProgress({ chainId, tracker, error }: RelayProgressProps) {
+  // Failures after the transaction was sent still carry its tracker
+  const sent = tracker ?? error?.tracker;
+  const status = useRelayStatus(sent);
+
+  const alert = error && (
+    <p role="alert" className="flex items-center gap-2 text-sm text-red-700">
+      <AlertCircle className="h-4 w-4 shrink-0" />
+      {errorMessages[error.code](error)}
+    </p>
+  );
+  if (!sent || !status) return alert || null;
+
+  const txUrl = explorerTxUrl(chainId, sent.transactionHash);
+  return (
+    <div className="space-y-2">
+      {alert}
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <p
+          className={`flex items-center gap-2 ${
+            status === "reverted" ? "text-red-700" : status === "confirmed" ? "text-green-700" : "text-gray-700"
+          }`}
+        >
+          {status === "reverted" ? (
+            <XCircle className="h-4 w-4" />
+          ) : status === "confirmed" ? (
+            <CheckCircle className="h-4 w-4" />
+          ) : (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          )}
+          {statusLabels[status]}
+        </p>
+        {txUrl && (
+          <a
+            href={txUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-blue-600 hover:underline shrink-0"
+          >
+            View transaction
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
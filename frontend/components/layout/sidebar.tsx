@@ -6,6 +6,8 @@ import { cn } from "@/lib/utils";
 import {
   LayoutDashboard,
   FileText,
+  FileSearch,
+  Gavel,
   Shield,
   Receipt,
   Calculator,
@@ -41,6 +43,7 @@ const menuItems = [
     items: [
       { icon: FileText, label: "All Contracts", href: "/contracts", badge: "12" },
       { icon: Plus, label: "Create Contract", href: "/contracts/new", badge: null },
+      { icon: Gavel, label: "Disputes", href: "/disputes", badge: null },
     ],
   },
   {
@@ -54,6 +57,7 @@ const menuItems = [
     label: "COMPLIANCE",
     items: [
       { icon: Shield, label: "Documents", href: "/compliance", badge: "2" },
+      { icon: FileSearch, label: "Verify Document", href: "/verify", badge: null },
     ],
   },
   {
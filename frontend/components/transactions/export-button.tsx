@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { fetchCashFlowsExport, type CashFlowFormat } from "@/lib/indexer";
+
+const ranges = {
+  "this-month": "This month",
+  "last-month": "Last month",
+  "this-year": "This year",
+  all: "All time",
+} as const;
+
+type Range = keyof typeof ranges;
+
+// Unix seconds bounds of a range in UTC; `to` is inclusive
+function rangeBounds(range: Range): { from?: number; to?: number } {
+  const now = new Date();
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  switch (range) {
+    case "this-month":
+      return { from: Date.UTC(year, month, 1) / 1000 };
+    case "last-month":
+      return { from: Date.UTC(year, month - 1, 1) / 1000, to: Date.UTC(year, month, 1) / 1000 - 1 };
+    case "this-year":
+      return { from: Date.UTC(year, 0, 1) / 1000 };
+    case "all":
+      return {};
+  }
+}
+
+function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Exports the connected wallet's escrow cash flows from the indexer. */
+export function ExportButton() {
+  const { address } = useAccount();
+  const [range, setRange] = useState<Range>("this-month");
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: CashFlowFormat) => {
+    if (!address) return;
+    setExporting(true);
+    setError(null);
+    try {
+      const blob = await fetchCashFlowsExport(address, { ...rangeBounds(range), format });
+      saveFile(blob, `escrow-cash-flows-${range}.${format}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={!address || exporting}>
+            {exporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuLabel>Period</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={range} onValueChange={(value) => setRange(value as Range)}>
+            {(Object.keys(ranges) as Range[]).map((key) => (
+              <DropdownMenuRadioItem key={key} value={key} onSelect={(event) => event.preventDefault()}>
+                {ranges[key]}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => handleExport("csv")}>Download CSV</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport("json")}>Download JSON</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { escrowKeys, fetchCounterparties, type CounterpartySort } from '@/lib/indexer';
+
+/** An address's trading partners, ranked by the indexer. */
+export function useCounterparties(
+  address: string | undefined,
+  params: { sort?: CounterpartySort; limit?: number } = {}
+) {
+  return useQuery({
+    queryKey: escrowKeys.counterpartyList(address ?? '', params),
+    queryFn: () => fetchCounterparties(address!, params),
+    enabled: !!address,
+  });
+}
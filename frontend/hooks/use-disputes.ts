@@ -0,0 +1,29 @@
+'use client';
+
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { escrowKeys, fetchDispute, fetchDisputes, type Dispute } from '@/lib/indexer';
+
+/**
+ * Disputes newest first; omit the address to list every dispute. Pass
+ * `enabled: false` while an address the list should be scoped to is unknown.
+ */
+export function useDisputes(
+  filters: { address?: string; status?: Dispute['status'] },
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useInfiniteQuery({
+    queryKey: escrowKeys.disputeList(filters),
+    queryFn: ({ pageParam }) => fetchDisputes({ ...filters, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled,
+  });
+}
+
+export function useDispute(escrowId: string | undefined) {
+  return useQuery({
+    queryKey: escrowKeys.dispute(escrowId ?? ''),
+    queryFn: () => fetchDispute(escrowId!),
+    enabled: !!escrowId,
+  });
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { escrowKeys, fetchDocument, fetchDocuments, IndexerError } from '@/lib/indexer';
+
+/**
+ * Escrows a document hash was anchored to. A hash that was never anchored
+ * resolves to an empty list rather than an error.
+ */
+export function useDocument(documentHash: string | undefined) {
+  return useQuery({
+    queryKey: escrowKeys.document(documentHash ?? ''),
+    queryFn: async () => {
+      try {
+        return (await fetchDocument(documentHash!)).anchors;
+      } catch (error) {
+        if (error instanceof IndexerError && error.status === 404) return [];
+        throw error;
+      }
+    },
+    enabled: !!documentHash,
+  });
+}
+
+/** Documents anchored to the escrows an address is a party to. */
+export function useDocuments(address: string | undefined, chainId?: number) {
+  return useQuery({
+    queryKey: escrowKeys.documentList(address ?? '', chainId),
+    queryFn: async () => (await fetchDocuments(address!, chainId)).items,
+    enabled: !!address,
+  });
+}
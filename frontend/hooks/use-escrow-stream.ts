@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { INDEXER_URL, escrowKeys, tokenKeys, type EscrowTransition } from '@/lib/indexer';
+
+/**
+ * Subscribes to the indexer's status stream and invalidates the React Query
+ * caches of any escrow that changes, so open pages refetch instead of polling.
+ * Pass an address for all of its escrows, or an escrowId for just one.
+ */
+export function useEscrowStream({
+  address,
+  escrowId,
+  onTransition,
+}: {
+  address?: string;
+  escrowId?: string;
+  onTransition?: (transition: EscrowTransition) => void;
+}) {
+  const queryClient = useQueryClient();
+
+  // Kept in a ref so inline callbacks don't reopen the stream on every render
+  const onTransitionRef = useRef(onTransition);
+  onTransitionRef.current = onTransition;
+
+  useEffect(() => {
+    if (!address && !escrowId) return;
+
+    const params = new URLSearchParams();
+    if (address) params.set('address', address);
+    if (escrowId) params.set('escrowId', escrowId);
+
+    // EventSource reconnects on its own and resumes via Last-Event-ID
+    const source = new EventSource(
+      `${INDEXER_URL}/escrows/stream?${params.toString()}`
+    );
+
+    const handleTransition = (event: MessageEvent<string>) => {
+      const transition = JSON.parse(event.data) as EscrowTransition;
+
+      queryClient.invalidateQueries({
+        queryKey: escrowKeys.detail(transition.escrowId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...escrowKeys.lists(), transition.buyer],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...escrowKeys.lists(), transition.seller],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...escrowKeys.volumes(), transition.buyer],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...escrowKeys.volumes(), transition.seller],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...escrowKeys.counterparties(), transition.buyer],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...escrowKeys.counterparties(), transition.seller],
+      });
+
+      // The indexer registers a token the first time an escrow is created in it
+      if (transition.type === 'CREATED') {
+        queryClient.invalidateQueries({ queryKey: tokenKeys.all });
+      }
+
+      if (transition.type === 'FUNDED' || transition.type === 'PAYMENT_RELEASED') {
+        queryClient.invalidateQueries({
+          queryKey: escrowKeys.transfers(transition.buyer),
+        });
+        queryClient.invalidateQueries({
+          queryKey: escrowKeys.transfers(transition.seller),
+        });
+      }
+
+      if (transition.type === 'DOCUMENT_UPLOADED') {
+        queryClient.invalidateQueries({
+          queryKey: [...escrowKeys.all, 'document', 'list', transition.buyer],
+        });
+        queryClient.invalidateQueries({
+          queryKey: [...escrowKeys.all, 'document', 'list', transition.seller],
+        });
+      }
+
+      if (transition.type === 'DISPUTED' || transition.type === 'PAYMENT_RELEASED') {
+        queryClient.invalidateQueries({ queryKey: escrowKeys.disputes() });
+      }
+
+      onTransitionRef.current?.(transition);
+    };
+
+    source.addEventListener('transition', handleTransition);
+    return () => {
+      source.removeEventListener('transition', handleTransition);
+      source.close();
+    };
+  }, [address, escrowId, queryClient]);
+}
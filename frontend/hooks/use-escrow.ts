@@ -0,0 +1,13 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { escrowKeys, fetchEscrow } from '@/lib/indexer';
+
+/** An indexed escrow with its documents and event timeline. */
+export function useEscrow(escrowId: string | undefined) {
+  return useQuery({
+    queryKey: escrowKeys.detail(escrowId ?? ''),
+    queryFn: () => fetchEscrow(escrowId!),
+    enabled: !!escrowId,
+  });
+}
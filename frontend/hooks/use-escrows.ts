@@ -0,0 +1,15 @@
+'use client';
+
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { escrowKeys, fetchEscrows, type EscrowFilters } from '@/lib/indexer';
+
+/** An address's escrows newest first, a page at a time. */
+export function useEscrows(address: string | undefined, filters: EscrowFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: escrowKeys.list(address ?? '', filters),
+    queryFn: ({ pageParam }) => fetchEscrows(address!, { ...filters, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!address,
+  });
+}
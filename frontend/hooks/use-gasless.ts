@@ -0,0 +1,45 @@
+'use client';
+
+import { useMemo, useSyncExternalStore } from 'react';
+import type { Address } from 'viem';
+import { usePublicClient, useWalletClient } from 'wagmi';
+import { GaslessTransactionService, type RelayStatus, type RelayTracker } from '@/lib/gasless';
+
+const RELAYER_URL = process.env.NEXT_PUBLIC_RELAYER_URL || 'http://localhost:3001';
+const ESCROW_CONTRACT = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as Address | undefined;
+
+/**
+ * Gasless escrow actions signed by the connected wallet and sent through the
+ * relayer. Undefined until a wallet is connected. Actions resolve to a
+ * RelayResult; check `ok` and switch on `error.code` to show failures.
+ */
+export function useGasless() {
+  const { data: walletClient } = useWalletClient();
+  // The app's configured chain, where the escrow contract is deployed
+  const publicClient = usePublicClient();
+
+  return useMemo(() => {
+    if (!walletClient || !ESCROW_CONTRACT) return undefined;
+    return new GaslessTransactionService(
+      RELAYER_URL,
+      ESCROW_CONTRACT,
+      walletClient,
+      publicClient
+    );
+  }, [walletClient, publicClient]);
+}
+
+const noTracker = () => () => {};
+
+/**
+ * Status of a relayed transaction, from the `tracker` on a successful
+ * action's receipt, re-rendering as it is mined and confirmed. Undefined
+ * without a tracker.
+ */
+export function useRelayStatus(tracker?: RelayTracker): RelayStatus | undefined {
+  return useSyncExternalStore(
+    tracker?.subscribe ?? noTracker,
+    () => tracker?.getStatus(),
+    () => tracker?.getStatus()
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchTokens, tokenKeys, type TokenMetadata } from '@/lib/indexer';
+import { DEFAULT_TOKEN_DECIMALS, formatTokenAmount } from '@/lib/utils';
+
+/**
+ * Token metadata registered by the indexer. A token's metadata never changes
+ * once read, so the list is only refetched when useEscrowStream sees a new
+ * escrow, which may be in a token the list does not have yet.
+ */
+export function useTokens(chainId?: number) {
+  return useQuery({
+    queryKey: tokenKeys.list(chainId),
+    queryFn: () => fetchTokens(chainId),
+    staleTime: Infinity,
+  });
+}
+
+const tokenKey = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+/**
+ * Resolves a token by chain and address to its metadata and formats raw
+ * amounts with its decimals. The same address can be a different token on
+ * another chain, so both are needed. Unknown tokens fall back to
+ * DEFAULT_TOKEN_DECIMALS and no symbol.
+ */
+export function useTokenFormatter(chainId?: number) {
+  const { data } = useTokens(chainId);
+
+  const tokens = useMemo(
+    () => new Map(data?.items.map((token) => [tokenKey(token.chainId, token.address), token])),
+    [data]
+  );
+
+  const getToken = useCallback(
+    (chainId: number, address: string): TokenMetadata | undefined =>
+      tokens.get(tokenKey(chainId, address)),
+    [tokens]
+  );
+
+  const decimalsOf = useCallback(
+    (chainId: number, address: string) =>
+      getToken(chainId, address)?.decimals ?? DEFAULT_TOKEN_DECIMALS,
+    [getToken]
+  );
+
+  const format = useCallback(
+    (raw: string | bigint, chainId: number, address: string) => {
+      const token = getToken(chainId, address);
+      const amount = formatTokenAmount(raw, token?.decimals ?? DEFAULT_TOKEN_DECIMALS);
+      return token?.symbol ? `${amount} ${token.symbol}` : amount;
+    },
+    [getToken]
+  );
+
+  return { getToken, decimalsOf, format };
+}
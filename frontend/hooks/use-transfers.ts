@@ -0,0 +1,29 @@
+'use client';
+
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import {
+  escrowKeys,
+  fetchBalances,
+  fetchTransfers,
+  type TransferFilters,
+} from '@/lib/indexer';
+
+/** Tracked token transfers of an address newest first, a page at a time. */
+export function useTransfers(address: string | undefined, filters: TransferFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: escrowKeys.transferList(address ?? '', filters),
+    queryFn: ({ pageParam }) => fetchTransfers(address!, { ...filters, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!address,
+  });
+}
+
+/** Indexed balances of an address in every tracked token it has moved. */
+export function useTokenBalances(address: string | undefined, chainId?: number) {
+  return useQuery({
+    queryKey: escrowKeys.balances(address ?? '', chainId),
+    queryFn: () => fetchBalances(address!, chainId),
+    enabled: !!address,
+  });
+}
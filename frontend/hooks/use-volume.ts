@@ -0,0 +1,16 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { escrowKeys, fetchVolume, type VolumeGranularity } from '@/lib/indexer';
+
+/** Volume buckets for an address from the indexer's daily or monthly tables. */
+export function useVolume(
+  address: string | undefined,
+  params: { granularity: VolumeGranularity; from?: number; to?: number; token?: string }
+) {
+  return useQuery({
+    queryKey: escrowKeys.volume(address ?? '', params),
+    queryFn: () => fetchVolume(address!, params),
+    enabled: !!address,
+  });
+}
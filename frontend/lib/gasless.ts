@@ -1,13 +1,52 @@
-import { ethers } from 'ethers';
-import { TypedDataDomain, TypedDataField } from '@ethersproject/abstract-signer';
-
-// EIP-712 Domain
-const DOMAIN: TypedDataDomain = {
-  name: 'LiskEscrow',
-  version: '1',
-  chainId: 4202, // Lisk testnet
-  verifyingContract: '', // Will be set after deployment
-};
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  UserRejectedRequestError,
+  keccak256,
+  isAddressEqual,
+  parseAbi,
+  parseEventLogs,
+  stringToHex,
+} from 'viem';
+import type {
+  Account,
+  Address,
+  Client,
+  Hex,
+  TransactionReceipt,
+  TypedDataDomain,
+  WalletClient,
+} from 'viem';
+import { getEip712Domain, readContract, waitForTransactionReceipt } from 'viem/actions';
+
+export class ChainMismatchError extends Error {
+  constructor(
+    public walletChainId: number,
+    public contractChainId: number
+  ) {
+    super(
+      `Wallet is connected to chain ${walletChainId}, but the escrow contract is on chain ${contractChainId}`
+    );
+    this.name = 'ChainMismatchError';
+  }
+}
+
+// ERC-5267 `fields` bits, in the order of the eip712Domain() return values
+const DOMAIN_FIELDS = ['name', 'version', 'chainId', 'verifyingContract', 'salt'] as const;
+
+const ESCROW_ABI = parseAbi([
+  'function getEscrowDetails(bytes32) view returns (address,address,uint256,uint256,uint8,address,uint256,uint256,bool)',
+  'event EscrowCreated(bytes32 indexed escrowId, address indexed buyer, address indexed seller, uint256 amount, uint256 deliveryDeadline)',
+]);
+
+const PERMIT_TOKEN_ABI = parseAbi([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function nonces(address owner) view returns (uint256)',
+]);
+
+// How long a funding permit stays valid, which covers queueing and retries
+const PERMIT_TTL_SECONDS = 60 * 60;
 
 // EIP-712 Types
 const TYPES = {
@@ -31,132 +70,696 @@ const TYPES = {
     { name: 'documentHash', type: 'bytes32' },
     { name: 'nonce', type: 'uint256' },
   ],
+  InitiateDispute: [
+    { name: 'escrowId', type: 'bytes32' },
+    { name: 'reasonHash', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+  CancelEscrow: [
+    { name: 'escrowId', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+  // ERC-2612, signed against the token's domain rather than LiskEscrow's
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+/** What an InitiateDispute signature commits to in place of the reason text. */
+export function disputeReasonHash(reason: string): Hex {
+  return keccak256(stringToHex(reason));
+}
+
+// Blocks, counting the one it landed in, before a relay counts as confirmed
+const CONFIRMATIONS = 3;
+
+export type RelayStatus = 'submitted' | 'mined' | 'confirmed' | 'reverted';
+
+/**
+ * Follows a relayed transaction until it is confirmed or reverted. Pages
+ * render it through useRelayStatus; `subscribe` and `getStatus` fit React's
+ * useSyncExternalStore.
+ */
+export class RelayTracker {
+  private status: RelayStatus = 'submitted';
+  private listeners = new Set<() => void>();
+  // Resolves once the transaction is in a block, whether or not it reverted
+  readonly receipt: Promise<TransactionReceipt>;
+
+  constructor(
+    client: Client,
+    readonly transactionHash: Hex,
+    confirmations = CONFIRMATIONS
+  ) {
+    this.receipt = waitForTransactionReceipt(client, { hash: transactionHash });
+    this.receipt
+      .then(async (receipt) => {
+        if (receipt.status === 'reverted') return this.update('reverted');
+        this.update('mined');
+        await waitForTransactionReceipt(client, { hash: transactionHash, confirmations });
+        this.update('confirmed');
+      })
+      // The status stays at the last one seen; `receipt` carries the error
+      .catch(() => {});
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getStatus = () => this.status;
+
+  private update(status: RelayStatus) {
+    this.status = status;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// What the relayer answers once it has sent the transaction, before it is
+// mined
+type RelayResponse = {
+  transactionHash: Hex;
+};
+
+export type RelayReceipt = RelayResponse & { tracker: RelayTracker };
+
+export type CreateEscrowReceipt = RelayReceipt & { escrowId: Hex };
+
+export type RelayErrorCode =
+  // The relayer rejected its API key (401)
+  | 'UNAUTHORIZED'
+  // Still rate limited after the automatic retries (429)
+  | 'RATE_LIMITED'
+  // A field was missing or malformed (400)
+  | 'BAD_REQUEST'
+  // The signature did not verify, even after re-signing with a fresh nonce
+  | 'INVALID_SIGNATURE'
+  // The transaction would revert, or did; `reason` has the require() message
+  // when the relayer could tell
+  | 'REVERTED'
+  // Any other relayer failure, the relayer could not be reached, or a chain
+  // read or the wallet failed before anything was sent
+  | 'RELAY_FAILED'
+  | 'CHAIN_MISMATCH'
+  // The wallet client has no account to sign with
+  | 'WALLET_UNAVAILABLE'
+  // The user declined the signature request in their wallet
+  | 'USER_REJECTED'
+  // The transaction was sent, but its receipt or EscrowCreated log could not
+  // be read; it may still be mined, so follow `tracker` or look it up
+  | 'OUTCOME_UNKNOWN';
+
+export type RelayError = {
+  code: RelayErrorCode;
+  message: string;
+  // HTTP status, when the relayer answered
+  status?: number;
+  reason?: string;
+  // Seconds until the rate limit resets, for RATE_LIMITED
+  retryAfter?: number;
+  // The relayed transaction, for failures after it was sent
+  transactionHash?: Hex;
+  tracker?: RelayTracker;
+};
+
+export type RelayResult<T> = { ok: true; data: T } | { ok: false; error: RelayError };
+
+// Error bodies of relayer/src/index.js
+type RelayErrorBody = {
+  error?: string;
+  details?: string;
+  reason?: string;
+  retryAfter?: number;
+};
+
+// Rate limited requests are retried after the relayer's retryAfter, or with
+// exponential backoff without one, unless that means waiting too long
+const MAX_RATE_LIMIT_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1_000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Relayers before `reason` was added only return viem's error message
+function parseRevertReason(details?: string) {
+  return details?.match(/reverted with the following reason:\s*\n(.+)/)?.[1].trim();
+}
+
+function parseRelayError(status: number, body: RelayErrorBody): RelayError {
+  const message = body.error ?? `Relayer responded with ${status}`;
+  switch (status) {
+    case 400:
+      return { code: 'BAD_REQUEST', message, status };
+    case 401:
+      return { code: 'UNAUTHORIZED', message, status };
+    case 429:
+      return { code: 'RATE_LIMITED', message, status, retryAfter: body.retryAfter };
+  }
+
+  // The relayer checks the signature against the expected nonce before
+  // sending, and the contract checks it again when the transaction runs
+  const reason = body.reason ?? parseRevertReason(body.details);
+  if (body.details === 'Invalid signature' || reason === 'Invalid signature') {
+    return { code: 'INVALID_SIGNATURE', message: 'Invalid signature', status };
+  }
+  if (reason) {
+    return { code: 'REVERTED', message: reason, status, reason };
+  }
+  return { code: 'RELAY_FAILED', message: body.details ?? message, status };
+}
+
+// The wallet or a read the signature depends on failed; carries the error
+// relay() returns
+class RelayFailure extends Error {
+  constructor(readonly error: RelayError) {
+    super(error.message);
+  }
+}
+
+function readFailure(what: string, error: unknown) {
+  const message =
+    error instanceof BaseError
+      ? error.shortMessage
+      : error instanceof Error
+        ? error.message
+        : String(error);
+  return new RelayFailure({ code: 'RELAY_FAILED', message: `Could not read ${what}: ${message}` });
+}
+
+// Wallet, RPC and read errors become results; anything else is a bug and is
+// rethrown
+function signingFailure(error: unknown): RelayResult<never> {
+  if (error instanceof RelayFailure) {
+    return { ok: false, error: error.error };
+  }
+  if (error instanceof ChainMismatchError) {
+    return { ok: false, error: { code: 'CHAIN_MISMATCH', message: error.message } };
+  }
+  if (
+    error instanceof BaseError &&
+    error.walk((cause) => cause instanceof UserRejectedRequestError)
+  ) {
+    return {
+      ok: false,
+      error: { code: 'USER_REJECTED', message: 'Signature request was rejected' },
+    };
+  }
+  if (error instanceof BaseError) {
+    return { ok: false, error: { code: 'RELAY_FAILED', message: error.shortMessage } };
+  }
+  throw error;
+}
+
+type NonceTicket = {
+  nonce: bigint;
+  // Resyncs since the manager started, when the nonce was reserved
+  generation: number;
+  // Settles once the submission before this one has finished
+  turn: Promise<void>;
+  release: () => void;
 };
 
+type SignerNonces = {
+  // Undefined until read from the relayer, and again after a resync
+  next?: bigint;
+  generation: number;
+  reserving: Promise<unknown>;
+  // Settles once the last reserved ticket's submission has finished
+  tail: Promise<void>;
+};
+
+/**
+ * Meta-transaction nonces per signer. Nonces are reserved as soon as an
+ * action starts, so a user can sign several in a row without waiting for a
+ * relay to be mined, while their submissions go out one at a time in nonce
+ * order. The relayer only accepts the nonce after the ones it has seen, and
+ * the contract only after the ones it has mined.
+ */
+class NonceManager {
+  private signers = new Map<string, SignerNonces>();
+
+  private get(signer: string) {
+    let nonces = this.signers.get(signer);
+    if (!nonces) {
+      nonces = { generation: 0, reserving: Promise.resolve(), tail: Promise.resolve() };
+      this.signers.set(signer, nonces);
+    }
+    return nonces;
+  }
+
+  // Reservations are made one at a time, so two actions started together
+  // never read the same starting nonce
+  reserve(
+    signer: string,
+    fetchNonce: () => Promise<RelayResult<bigint>>
+  ): Promise<RelayResult<NonceTicket>> {
+    const nonces = this.get(signer);
+    const reserved = nonces.reserving.then(async (): Promise<RelayResult<NonceTicket>> => {
+      if (nonces.next === undefined) {
+        const fetched = await fetchNonce();
+        if (!fetched.ok) return fetched;
+        nonces.next = fetched.data;
+      }
+
+      let release = () => {};
+      const done = new Promise<void>((resolve) => (release = resolve));
+      const ticket = {
+        nonce: nonces.next,
+        generation: nonces.generation,
+        turn: nonces.tail,
+        release,
+      };
+      nonces.next += BigInt(1);
+      nonces.tail = done;
+      return { ok: true, data: ticket };
+    });
+    nonces.reserving = reserved.catch(() => {});
+    return reserved;
+  }
+
+  /** Runs the submission once the one before it has finished. */
+  async submit<T>(ticket: NonceTicket, task: () => Promise<T>) {
+    await ticket.turn;
+    try {
+      return await task();
+    } finally {
+      ticket.release();
+    }
+  }
+
+  /**
+   * For a ticket whose nonce went unused. The next reservation reads the
+   * nonce from the relayer again, unless that already happened after this
+   * ticket was reserved, in which case its failure is accounted for.
+   */
+  abandon(signer: string, ticket: NonceTicket) {
+    ticket.turn.then(ticket.release);
+    const nonces = this.get(signer);
+    if (ticket.generation !== nonces.generation) return;
+    nonces.generation += 1;
+    nonces.next = undefined;
+  }
+}
+
+// Shared by every service instance, since wagmi hands out a new wallet
+// client whenever the connection changes
+const nonceManager = new NonceManager();
+
 export class GaslessTransactionService {
   private relayerUrl: string;
-  private escrowContract: string;
-  private signer: ethers.Signer;
+  private escrowContract: Address;
+  private walletClient: WalletClient;
+  private publicClient: Client;
+  private domain?: Promise<TypedDataDomain>;
 
-  constructor(relayerUrl: string, escrowContract: string, signer: ethers.Signer) {
+  // The wallet client must have an account attached, as the one wagmi's
+  // useWalletClient returns for the connected wallet does. The domain is read
+  // through publicClient, which should point at the chain the escrow contract
+  // is deployed on; without one it is read through the wallet.
+  constructor(
+    relayerUrl: string,
+    escrowContract: Address,
+    walletClient: WalletClient,
+    publicClient: Client = walletClient
+  ) {
     this.relayerUrl = relayerUrl;
     this.escrowContract = escrowContract;
-    this.signer = signer;
-    DOMAIN.verifyingContract = escrowContract;
+    this.walletClient = walletClient;
+    this.publicClient = publicClient;
   }
 
+  // Resolves once the transaction is mined, with the id from its
+  // EscrowCreated log
   async createEscrow(
-    seller: string,
-    amount: string,
-    token: string,
+    seller: Address,
+    amount: bigint,
+    token: Address,
     deliveryDeadline: number
-  ) {
-    const userAddress = await this.signer.getAddress();
-    const nonce = await this.getNonce(userAddress);
-
-    const message = {
-      seller,
-      amount,
-      token,
-      deliveryDeadline,
-      nonce,
-    };
+  ): Promise<RelayResult<CreateEscrowReceipt>> {
+    const result = await this.relay('/relay/create-escrow', async (account, nonce) => {
+      const signature = await this.walletClient.signTypedData({
+        account,
+        domain: await this.getDomain(),
+        types: { CreateEscrow: TYPES.CreateEscrow },
+        primaryType: 'CreateEscrow',
+        message: {
+          seller,
+          amount,
+          token,
+          deliveryDeadline: BigInt(deliveryDeadline),
+          nonce,
+        },
+      });
+      return {
+        seller,
+        amount: amount.toString(),
+        token,
+        deliveryDeadline,
+        buyer: account.address,
+        signature,
+      };
+    });
+    return result.ok ? this.readEscrowId(result.data) : result;
+  }
 
-    const signature = await this.signer._signTypedData(DOMAIN, { CreateEscrow: TYPES.CreateEscrow }, message);
+  // When the buyer has not approved the escrow amount, a token permit is
+  // signed right after FundEscrow and relayed with it, so funding needs no
+  // approve transaction. That is a second wallet prompt, unless the wallet
+  // signs without one. Tokens without ERC-2612 and ERC-5267 get FundEscrow
+  // alone and still need the approval.
+  fundEscrow(escrowId: Hex) {
+    return this.relay('/relay/fund-escrow', async (account, nonce) => {
+      const domain = await this.getDomain();
+      const permit = await this.readPermit(escrowId, account.address);
+      const signature = await this.walletClient.signTypedData({
+        account,
+        domain,
+        types: { FundEscrow: TYPES.FundEscrow },
+        primaryType: 'FundEscrow',
+        message: { escrowId, nonce },
+      });
+      if (!permit) return { escrowId, buyer: account.address, signature };
 
-    // Send to relayer
-    const response = await fetch(`${this.relayerUrl}/relay/create-escrow`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        ...message,
-        buyer: userAddress,
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS);
+      const permitSignature = await this.walletClient.signTypedData({
+        account,
+        domain: permit.domain,
+        types: { Permit: TYPES.Permit },
+        primaryType: 'Permit',
+        message: {
+          owner: account.address,
+          spender: this.escrowContract,
+          value: permit.value,
+          nonce: permit.nonce,
+          deadline,
+        },
+      });
+      return {
+        escrowId,
+        buyer: account.address,
         signature,
-      }),
+        permit: { deadline: deadline.toString(), signature: permitSignature },
+      };
     });
-
-    return response.json();
   }
 
-  async fundEscrow(escrowId: string) {
-    const userAddress = await this.signer.getAddress();
-    const nonce = await this.getNonce(userAddress);
-
-    const message = {
-      escrowId,
-      nonce,
-    };
+  confirmDelivery(escrowId: Hex) {
+    return this.relay('/relay/confirm-delivery', async (account, nonce) => {
+      const signature = await this.walletClient.signTypedData({
+        account,
+        domain: await this.getDomain(),
+        types: { ConfirmDelivery: TYPES.ConfirmDelivery },
+        primaryType: 'ConfirmDelivery',
+        message: { escrowId, nonce },
+      });
+      return { escrowId, buyer: account.address, signature };
+    });
+  }
 
-    const signature = await this.signer._signTypedData(DOMAIN, { FundEscrow: TYPES.FundEscrow }, message);
+  storeDocument(escrowId: Hex, documentHash: Hex) {
+    return this.relay('/relay/store-document', async (account, nonce) => {
+      const signature = await this.walletClient.signTypedData({
+        account,
+        domain: await this.getDomain(),
+        types: { StoreDocument: TYPES.StoreDocument },
+        primaryType: 'StoreDocument',
+        message: { escrowId, documentHash, nonce },
+      });
+      return { escrowId, documentHash, seller: account.address, signature };
+    });
+  }
 
-    const response = await fetch(`${this.relayerUrl}/relay/fund-escrow`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        escrowId,
-        buyer: userAddress,
-        signature,
-      }),
+  // The reason text goes to the relayer and is stored on-chain with the
+  // dispute, where the indexer picks it up for the dispute pages
+  initiateDispute(escrowId: Hex, reason: string) {
+    return this.relay('/relay/initiate-dispute', async (account, nonce) => {
+      const signature = await this.walletClient.signTypedData({
+        account,
+        domain: await this.getDomain(),
+        types: { InitiateDispute: TYPES.InitiateDispute },
+        primaryType: 'InitiateDispute',
+        message: { escrowId, reasonHash: disputeReasonHash(reason), nonce },
+      });
+      return { escrowId, reason, initiator: account.address, signature };
     });
+  }
 
-    return response.json();
+  cancelEscrow(escrowId: Hex) {
+    return this.relay('/relay/cancel-escrow', async (account, nonce) => {
+      const signature = await this.walletClient.signTypedData({
+        account,
+        domain: await this.getDomain(),
+        types: { CancelEscrow: TYPES.CancelEscrow },
+        primaryType: 'CancelEscrow',
+        message: { escrowId, nonce },
+      });
+      return { escrowId, party: account.address, signature };
+    });
   }
 
-  async confirmDelivery(escrowId: string) {
-    const userAddress = await this.signer.getAddress();
-    const nonce = await this.getNonce(userAddress);
+  // Signs with a reserved nonce and submits in nonce order. A signature the
+  // relayer rejects may just be stale, when a relay from elsewhere took the
+  // nonce, so it is signed once more if the resynced nonce has moved on.
+  private async relay(
+    path: string,
+    sign: (account: Account, nonce: bigint) => Promise<object>
+  ): Promise<RelayResult<RelayReceipt>> {
+    let account: Account;
+    try {
+      account = this.getAccount();
+    } catch (error) {
+      return signingFailure(error);
+    }
+    const signer = `${this.escrowContract}:${account.address}`.toLowerCase();
+    const fetchNonce = () => this.getNonce(account.address);
 
-    const message = {
-      escrowId,
-      nonce,
-    };
+    let rejected: { nonce: bigint; result: RelayResult<never> } | undefined;
+    for (;;) {
+      const reserved = await nonceManager.reserve(signer, fetchNonce);
+      if (!reserved.ok) return reserved;
+      const ticket = reserved.data;
 
-    const signature = await this.signer._signTypedData(DOMAIN, { ConfirmDelivery: TYPES.ConfirmDelivery }, message);
+      if (rejected && ticket.nonce === rejected.nonce) {
+        nonceManager.abandon(signer, ticket);
+        return rejected.result;
+      }
 
-    const response = await fetch(`${this.relayerUrl}/relay/confirm-delivery`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        escrowId,
-        buyer: userAddress,
-        signature,
-      }),
+      let result: RelayResult<RelayResponse>;
+      try {
+        const body = await sign(account, ticket.nonce);
+        result = await nonceManager.submit(ticket, () =>
+          this.request<RelayResponse>(path, body)
+        );
+      } catch (error) {
+        nonceManager.abandon(signer, ticket);
+        return signingFailure(error);
+      }
+      if (result.ok) {
+        const tracker = new RelayTracker(this.publicClient, result.data.transactionHash);
+        return { ok: true, data: { ...result.data, tracker } };
+      }
+
+      // Nothing was relayed, so the nonces reserved after this one are off
+      nonceManager.abandon(signer, ticket);
+      if (result.error.code !== 'INVALID_SIGNATURE' || rejected) return result;
+      rejected = { nonce: ticket.nonce, result };
+    }
+  }
+
+  // The relayer answers before the transaction is mined, so the id is read
+  // from the receipt here. The escrow may exist even when that fails, so
+  // failures keep the transaction.
+  private async readEscrowId(relayed: RelayReceipt): Promise<RelayResult<CreateEscrowReceipt>> {
+    const { transactionHash, tracker } = relayed;
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await tracker.receipt;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        ok: false,
+        error: {
+          code: 'OUTCOME_UNKNOWN',
+          message: `Could not read the receipt: ${message}`,
+          transactionHash,
+          tracker,
+        },
+      };
+    }
+    if (receipt.status === 'reverted') {
+      return {
+        ok: false,
+        error: { code: 'REVERTED', message: 'Transaction reverted', transactionHash, tracker },
+      };
+    }
+
+    const [created] = parseEventLogs({
+      abi: ESCROW_ABI,
+      eventName: 'EscrowCreated',
+      logs: receipt.logs.filter((log) => isAddressEqual(log.address, this.escrowContract)),
     });
+    if (!created) {
+      return {
+        ok: false,
+        error: {
+          code: 'OUTCOME_UNKNOWN',
+          message: 'Transaction has no EscrowCreated log',
+          transactionHash,
+          tracker,
+        },
+      };
+    }
+    return { ok: true, data: { ...relayed, escrowId: created.args.escrowId } };
+  }
 
-    return response.json();
+  // GET, or POST with a body, retrying while rate limited
+  private async request<T>(path: string, body?: object): Promise<RelayResult<T>> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(
+          `${this.relayerUrl}${path}`,
+          body && {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          }
+        );
+      } catch (error) {
+        return {
+          ok: false,
+          error: {
+            code: 'RELAY_FAILED',
+            message: `Relayer unreachable: ${(error as Error).message}`,
+          },
+        };
+      }
+
+      // Proxies in front of the relayer may answer with HTML
+      const payload = await response.json().catch(() => ({}));
+      if (response.ok) return { ok: true, data: payload as T };
+
+      const error = parseRelayError(response.status, payload as RelayErrorBody);
+      if (error.code !== 'RATE_LIMITED' || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        return { ok: false, error };
+      }
+      const delay =
+        error.retryAfter !== undefined
+          ? error.retryAfter * 1000
+          : BASE_RETRY_DELAY_MS * 2 ** attempt;
+      if (delay > MAX_RETRY_DELAY_MS) return { ok: false, error };
+      await sleep(delay);
+    }
   }
 
-  async storeDocument(escrowId: string, documentHash: string) {
-    const userAddress = await this.signer.getAddress();
-    const nonce = await this.getNonce(userAddress);
+  private getAccount() {
+    const { account } = this.walletClient;
+    if (!account) {
+      throw new RelayFailure({
+        code: 'WALLET_UNAVAILABLE',
+        message: 'Wallet client has no account; connect a wallet first',
+      });
+    }
+    return account;
+  }
 
-    const message = {
-      escrowId,
-      documentHash,
-      nonce,
-    };
+  // The EIP-712 domain as LiskEscrow reports it (ERC-5267), read once per
+  // instance, so signatures match the deployment this service was given.
+  // Signing is refused while the wallet is on another chain.
+  private async getDomain(): Promise<TypedDataDomain> {
+    if (!this.domain) {
+      this.domain = this.readDomain();
+      // Read again next time rather than caching a failure
+      this.domain.catch(() => {
+        this.domain = undefined;
+      });
+    }
+    let domain: TypedDataDomain;
+    let chainId: number;
+    try {
+      domain = await this.domain;
+      chainId = await this.walletClient.getChainId();
+    } catch (error) {
+      throw readFailure('the signing domain', error);
+    }
+    if (chainId !== domain.chainId) {
+      throw new ChainMismatchError(chainId, Number(domain.chainId));
+    }
+    return domain;
+  }
 
-    const signature = await this.signer._signTypedData(DOMAIN, { StoreDocument: TYPES.StoreDocument }, message);
+  private async readDomain(address: Address = this.escrowContract): Promise<TypedDataDomain> {
+    const { domain, fields } = await getEip712Domain(this.publicClient, { address });
+    // viem fills in every value, including a zero salt the contract does
+    // not use, so keep only the ones `fields` marks as part of the domain
+    const bits = parseInt(fields, 16);
+    return Object.fromEntries(
+      DOMAIN_FIELDS.filter((_, i) => bits & (1 << i)).map((key) => [key, domain[key]])
+    );
+  }
 
-    const response = await fetch(`${this.relayerUrl}/relay/store-document`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        escrowId,
-        documentHash,
-        seller: userAddress,
-        signature,
-      }),
-    });
+  // What a permit to fund the escrow needs, or undefined when the allowance
+  // already covers the amount or the token cannot take permits. Failed reads
+  // are thrown as a RelayFailure.
+  private async readPermit(escrowId: Hex, owner: Address) {
+    let amount: bigint;
+    let token: Address;
+    let allowance: bigint;
+    try {
+      [, , amount, , , token] = await readContract(this.publicClient, {
+        address: this.escrowContract,
+        abi: ESCROW_ABI,
+        functionName: 'getEscrowDetails',
+        args: [escrowId],
+      });
+      allowance = await readContract(this.publicClient, {
+        address: token,
+        abi: PERMIT_TOKEN_ABI,
+        functionName: 'allowance',
+        args: [owner, this.escrowContract],
+      });
+    } catch (error) {
+      throw readFailure('the escrow allowance', error);
+    }
+    if (allowance >= amount) return undefined;
 
-    return response.json();
+    try {
+      const [domain, nonce] = await Promise.all([
+        this.readDomain(token),
+        readContract(this.publicClient, {
+          address: token,
+          abi: PERMIT_TOKEN_ABI,
+          functionName: 'nonces',
+          args: [owner],
+        }),
+      ]);
+      return { domain, nonce, value: amount };
+    } catch (error) {
+      const unsupported =
+        error instanceof BaseError &&
+        error.walk(
+          (cause) =>
+            // Not exported by viem, so matched by name
+            (cause as BaseError).name === 'Eip712DomainNotFoundError' ||
+            cause instanceof ContractFunctionZeroDataError ||
+            cause instanceof ContractFunctionRevertedError
+        );
+      if (unsupported) return undefined;
+      throw readFailure('the token permit nonce', error);
+    }
   }
 
-  private async getNonce(address: string): Promise<number> {
-    // Get nonce from contract
-    // This would be implemented with contract read
-    const response = await fetch(`${this.relayerUrl}/nonce/${address}`);
-    const data = await response.json();
-    return data.nonce;
+  private async getNonce(address: Address): Promise<RelayResult<bigint>> {
+    // nextNonce already skips nonces taken by relays still in flight, so
+    // actions can be signed back to back without waiting for each to mine
+    const result = await this.request<{ nextNonce: string }>(`/nonce/${address}`);
+    return result.ok ? { ok: true, data: BigInt(result.data.nextNonce) } : result;
   }
-}
\ No newline at end of file
+}
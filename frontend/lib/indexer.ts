@@ -0,0 +1,274 @@
+// Response models are the indexer's own route types, so a change to an
+// endpoint fails the type-check here instead of at runtime
+import type {
+  CashFlow,
+  CashFlowFormat,
+  Counterparty,
+  CounterpartySort,
+  Dispute,
+  DisputeDetail,
+  DocumentAnchor,
+  DocumentLookup,
+  Escrow,
+  EscrowDetail,
+  EscrowDocument,
+  EscrowEvent,
+  EscrowEventType,
+  EscrowListItem,
+  EscrowStatus,
+  EscrowTransition,
+  Items,
+  MetaNonce,
+  Page,
+  TokenBalance,
+  TokenMetadata,
+  TokenTransfer,
+  VolumeBucket,
+  VolumeGranularity,
+  VolumeSeries,
+} from '@indexer/types';
+
+export type {
+  CashFlow,
+  CashFlowFormat,
+  Counterparty,
+  CounterpartySort,
+  Dispute,
+  DisputeDetail,
+  DocumentAnchor,
+  DocumentLookup,
+  Escrow,
+  EscrowDetail,
+  EscrowDocument,
+  EscrowEvent,
+  EscrowEventType,
+  EscrowListItem,
+  EscrowStatus,
+  EscrowTransition,
+  Items,
+  MetaNonce,
+  Page,
+  TokenBalance,
+  TokenMetadata,
+  TokenTransfer,
+  VolumeBucket,
+  VolumeGranularity,
+  VolumeSeries,
+};
+
+export const INDEXER_URL =
+  process.env.NEXT_PUBLIC_INDEXER_URL || 'http://localhost:42069';
+
+/** Statuses the indexer's OverdueCheck flags once the deadline has passed. */
+export function isAwaitingDelivery(escrow: Pick<Escrow, 'status'>) {
+  return (
+    escrow.status === 'CREATED' ||
+    escrow.status === 'FUNDED' ||
+    escrow.status === 'DOCUMENTS_PENDING'
+  );
+}
+
+export class IndexerError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'IndexerError';
+  }
+}
+
+async function indexerFetch<T>(path: string): Promise<T> {
+  const response = await fetch(`${INDEXER_URL}${path}`);
+  const body = await response.json();
+  if (!response.ok) {
+    throw new IndexerError(body.error || response.statusText, response.status);
+  }
+  return body as T;
+}
+
+export type EscrowFilters = {
+  role?: EscrowListItem['role'];
+  status?: EscrowStatus;
+  overdue?: boolean;
+  chainId?: number;
+};
+
+/** Escrows where the address is buyer or seller, newest first. */
+export function fetchEscrows(
+  address: string,
+  params: EscrowFilters & { cursor?: string; limit?: number } = {}
+) {
+  const query = new URLSearchParams({ address });
+  if (params.role) query.set('role', params.role);
+  if (params.status) query.set('status', params.status);
+  if (params.overdue !== undefined) query.set('overdue', String(params.overdue));
+  if (params.chainId !== undefined) query.set('chainId', String(params.chainId));
+  if (params.cursor) query.set('cursor', params.cursor);
+  if (params.limit !== undefined) query.set('limit', String(params.limit));
+  return indexerFetch<Page<EscrowListItem>>(`/escrows?${query.toString()}`);
+}
+
+export function fetchEscrow(escrowId: string) {
+  return indexerFetch<EscrowDetail>(`/escrows/${escrowId}`);
+}
+
+export function fetchDocument(documentHash: string) {
+  return indexerFetch<DocumentLookup>(`/documents/${documentHash}`);
+}
+
+/** Documents on escrows where the address is buyer or seller, newest first. */
+export function fetchDocuments(address: string, chainId?: number) {
+  const query = new URLSearchParams({ address });
+  if (chainId !== undefined) query.set('chainId', String(chainId));
+  return indexerFetch<Items<DocumentAnchor>>(`/documents?${query.toString()}`);
+}
+
+export function fetchVolume(
+  address: string,
+  params: { granularity: VolumeGranularity; from?: number; to?: number; token?: string }
+) {
+  const query = new URLSearchParams({ address, granularity: params.granularity });
+  if (params.from !== undefined) query.set('from', String(params.from));
+  if (params.to !== undefined) query.set('to', String(params.to));
+  if (params.token) query.set('token', params.token);
+  return indexerFetch<VolumeSeries>(`/volume?${query.toString()}`);
+}
+
+export function fetchCounterparties(
+  address: string,
+  params: { sort?: CounterpartySort; limit?: number } = {}
+) {
+  const query = new URLSearchParams({ address });
+  if (params.sort) query.set('sort', params.sort);
+  if (params.limit !== undefined) query.set('limit', String(params.limit));
+  return indexerFetch<Items<Counterparty>>(`/counterparties?${query.toString()}`);
+}
+
+export function fetchDisputes(params: {
+  address?: string;
+  status?: Dispute['status'];
+  cursor?: string;
+}) {
+  const query = new URLSearchParams();
+  if (params.address) query.set('address', params.address);
+  if (params.status) query.set('status', params.status);
+  if (params.cursor) query.set('cursor', params.cursor);
+  return indexerFetch<Page<Dispute>>(`/disputes?${query.toString()}`);
+}
+
+export function fetchDispute(escrowId: string) {
+  return indexerFetch<DisputeDetail>(`/disputes/${escrowId}`);
+}
+
+export function fetchTokens(chainId?: number) {
+  const query = new URLSearchParams();
+  if (chainId !== undefined) query.set('chainId', String(chainId));
+  return indexerFetch<Items<TokenMetadata>>(`/tokens?${query.toString()}`);
+}
+
+export function fetchToken(address: string, chainId?: number) {
+  const query = new URLSearchParams();
+  if (chainId !== undefined) query.set('chainId', String(chainId));
+  return indexerFetch<TokenMetadata>(`/tokens/${address}?${query.toString()}`);
+}
+
+export type TransferFilters = {
+  token?: string;
+  escrow?: boolean;
+  from?: number;
+  to?: number;
+  chainId?: number;
+};
+
+/** Tracked ERC-20 transfers in and out of an address, newest first. */
+export function fetchTransfers(
+  address: string,
+  params: TransferFilters & { cursor?: string; limit?: number } = {}
+) {
+  const query = new URLSearchParams({ address });
+  if (params.token) query.set('token', params.token);
+  if (params.escrow !== undefined) query.set('escrow', String(params.escrow));
+  if (params.from !== undefined) query.set('from', String(params.from));
+  if (params.to !== undefined) query.set('to', String(params.to));
+  if (params.chainId !== undefined) query.set('chainId', String(params.chainId));
+  if (params.cursor) query.set('cursor', params.cursor);
+  if (params.limit !== undefined) query.set('limit', String(params.limit));
+  return indexerFetch<Page<TokenTransfer>>(`/transfers?${query.toString()}`);
+}
+
+export function fetchBalances(address: string, chainId?: number) {
+  const query = new URLSearchParams({ address });
+  if (chainId !== undefined) query.set('chainId', String(chainId));
+  return indexerFetch<Items<TokenBalance>>(`/transfers/balances?${query.toString()}`);
+}
+
+/** Confirmed meta-transaction nonce; the relayer adds in-flight relays. */
+export function fetchNonce(address: string, chainId: number) {
+  return indexerFetch<MetaNonce>(`/nonces/${address}?chainId=${chainId}`);
+}
+
+export function cashFlowsUrl(
+  address: string,
+  params: { from?: number; to?: number; format?: CashFlowFormat } = {}
+) {
+  const query = new URLSearchParams({ address });
+  if (params.from !== undefined) query.set('from', String(params.from));
+  if (params.to !== undefined) query.set('to', String(params.to));
+  if (params.format) query.set('format', params.format);
+  return `${INDEXER_URL}/cash-flows?${query.toString()}`;
+}
+
+/** Downloads the cash flows export as a file body. */
+export async function fetchCashFlowsExport(
+  address: string,
+  params: { from?: number; to?: number; format: CashFlowFormat }
+) {
+  const response = await fetch(cashFlowsUrl(address, params));
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new IndexerError(body.error || response.statusText, response.status);
+  }
+  return response.blob();
+}
+
+// React Query keys for indexer data. Lists and details share the 'escrows'
+// root so a status change can invalidate everything derived from an escrow.
+export const escrowKeys = {
+  all: ['escrows'] as const,
+  lists: () => [...escrowKeys.all, 'list'] as const,
+  list: (address: string, filters: Record<string, unknown> = {}) =>
+    [...escrowKeys.lists(), address.toLowerCase(), filters] as const,
+  details: () => [...escrowKeys.all, 'detail'] as const,
+  detail: (escrowId: string) =>
+    [...escrowKeys.details(), escrowId.toLowerCase()] as const,
+  document: (documentHash: string) =>
+    [...escrowKeys.all, 'document', documentHash.toLowerCase()] as const,
+  documentList: (address: string, chainId?: number) =>
+    [...escrowKeys.all, 'document', 'list', address.toLowerCase(), chainId ?? 'all'] as const,
+  disputes: () => [...escrowKeys.all, 'dispute'] as const,
+  disputeList: (filters: Record<string, unknown> = {}) =>
+    [...escrowKeys.disputes(), 'list', filters] as const,
+  dispute: (escrowId: string) =>
+    [...escrowKeys.disputes(), 'detail', escrowId.toLowerCase()] as const,
+  counterparties: () => [...escrowKeys.all, 'counterparties'] as const,
+  counterpartyList: (address: string, params: Record<string, unknown> = {}) =>
+    [...escrowKeys.counterparties(), address.toLowerCase(), params] as const,
+  volumes: () => [...escrowKeys.all, 'volume'] as const,
+  volume: (address: string, params: Record<string, unknown> = {}) =>
+    [...escrowKeys.volumes(), address.toLowerCase(), params] as const,
+  // Funding, release and refund move tokens, so transfers live here too
+  transfers: (address: string) =>
+    [...escrowKeys.all, 'transfers', address.toLowerCase()] as const,
+  transferList: (address: string, filters: Record<string, unknown> = {}) =>
+    [...escrowKeys.transfers(address), 'list', filters] as const,
+  balances: (address: string, chainId?: number) =>
+    [...escrowKeys.transfers(address), 'balances', chainId ?? 'all'] as const,
+  nonce: (address: string, chainId: number) =>
+    [...escrowKeys.all, 'nonce', address.toLowerCase(), chainId] as const,
+};
+
+export const tokenKeys = {
+  all: ['tokens'] as const,
+  list: (chainId?: number) => [...tokenKeys.all, chainId ?? 'all'] as const,
+};
@@ -21,6 +21,9 @@ export interface Contract {
   shippedAt?: string;
   deliveredAt?: string;
   completedAt?: string;
+  deliveryDeadline: string;
+  // Mirrors the indexer's overdue flag: awaiting delivery past the deadline
+  overdue?: boolean;
   period: string;
   description: string;
   milestones?: Milestone[];
@@ -132,6 +135,7 @@ export const mockContracts: Contract[] = [
     currency: 'USDC',
     status: 'active',
     createdAt: '2021-08-01T10:00:00Z',
+    deliveryDeadline: '2021-12-30T23:59:59Z',
     period: 'Aug 1st, 2021 - Dec 30th, 2021',
     description: 'Software development services'
   },
@@ -145,6 +149,7 @@ export const mockContracts: Contract[] = [
     status: 'funded',
     createdAt: '2021-07-01T10:00:00Z',
     fundedAt: '2021-07-02T10:00:00Z',
+    deliveryDeadline: '2022-08-30T23:59:59Z',
     period: 'Jul 1st, 2021 - Aug 30th, 2022',
     description: 'Marketing campaign services',
     milestones: [
@@ -166,6 +171,7 @@ export const mockContracts: Contract[] = [
     shippedAt: '2021-06-05T10:00:00Z',
     deliveredAt: '2021-06-10T10:00:00Z',
     completedAt: '2021-06-10T14:00:00Z',
+    deliveryDeadline: '2021-06-10T23:59:59Z',
     period: 'Jun 1st, 2021 - Jun 10th, 2021',
     description: 'Consulting services'
   }
@@ -277,6 +283,11 @@ export const getContractsByUser = (userId: string) => {
   );
 };
 
+// Contracts whose delivery deadline still matters (CREATED, FUNDED or
+// DOCUMENTS_PENDING on-chain)
+export const isAwaitingDelivery = (contract: Contract) =>
+  ['active', 'funded', 'shipped'].includes(contract.status);
+
 export const getTransactionsByUser = (userId: string) => {
   // In a real app, we'd filter by user's wallet address
   return mockTransactions;
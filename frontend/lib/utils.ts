@@ -1,6 +1,42 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { formatUnits, keccak256, type Chain } from "viem"
+import { lisk, liskSepolia } from "viem/chains"
+import type { DefaultTokenDecimals } from "@indexer/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function shortenAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+// Same fallback as the indexer's API for tokens it has no metadata for
+export const DEFAULT_TOKEN_DECIMALS: DefaultTokenDecimals = 18
+
+/** Formats a raw uint256 token amount (as returned by the indexer) for display. */
+export function formatTokenAmount(
+  raw: string | bigint,
+  decimals: number = DEFAULT_TOKEN_DECIMALS
+) {
+  return Number(formatUnits(BigInt(raw), decimals)).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  })
+}
+
+const explorerChains: Record<number, Chain> = {
+  [lisk.id]: lisk,
+  [liskSepolia.id]: liskSepolia,
+}
+
+/** Block explorer link for a transaction, or undefined on chains without one (e.g. Anvil). */
+export function explorerTxUrl(chainId: number, hash: string) {
+  const explorer = explorerChains[chainId]?.blockExplorers?.default.url
+  return explorer ? `${explorer}/tx/${hash}` : undefined
+}
+
+/** The bytes32 anchored on-chain for a document: keccak256 of the file contents. */
+export async function hashDocument(file: Blob) {
+  return keccak256(new Uint8Array(await file.arrayBuffer()))
+}
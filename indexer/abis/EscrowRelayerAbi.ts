@@ -0,0 +1,311 @@
+export const EscrowRelayerAbi = [
+  {
+    type: "constructor",
+    inputs: [
+      {
+        name: "_escrowContract",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "authorizeRelayer",
+    inputs: [
+      {
+        name: "relayer",
+        type: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "authorizedRelayers",
+    inputs: [
+      {
+        name: "",
+        type: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "escrowContract",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "owner",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "relayCancelEscrow",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "party",
+        type: "address",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "relayConfirmDelivery",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "buyer",
+        type: "address",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "relayCreateEscrow",
+    inputs: [
+      {
+        name: "seller",
+        type: "address",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        name: "token",
+        type: "address",
+      },
+      {
+        name: "deliveryDeadline",
+        type: "uint256",
+      },
+      {
+        name: "buyer",
+        type: "address",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "relayFundEscrow",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "buyer",
+        type: "address",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "relayFundEscrowWithPermit",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "buyer",
+        type: "address",
+      },
+      {
+        name: "permitDeadline",
+        type: "uint256",
+      },
+      {
+        name: "v",
+        type: "uint8",
+      },
+      {
+        name: "r",
+        type: "bytes32",
+      },
+      {
+        name: "s",
+        type: "bytes32",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "relayInitiateDispute",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "reason",
+        type: "string",
+      },
+      {
+        name: "initiator",
+        type: "address",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "relayStoreDocument",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "documentHash",
+        type: "bytes32",
+      },
+      {
+        name: "seller",
+        type: "address",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "revokeRelayer",
+    inputs: [
+      {
+        name: "relayer",
+        type: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "transferOwnership",
+    inputs: [
+      {
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "event",
+    name: "RelayerAuthorized",
+    inputs: [
+      {
+        name: "relayer",
+        type: "address",
+        indexed: false,
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RelayerRevoked",
+    inputs: [
+      {
+        name: "relayer",
+        type: "address",
+        indexed: false,
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "TransactionRelayed",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        indexed: true,
+      },
+      {
+        name: "action",
+        type: "string",
+        indexed: false,
+      },
+    ],
+    anonymous: false,
+  },
+] as const;
@@ -1 +0,0 @@
-export const ExampleContractAbi = [] as const;
@@ -0,0 +1,881 @@
+export const LiskEscrowAbi = [
+  {
+    type: "constructor",
+    inputs: [
+      {
+        name: "_trustedForwarder",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "CANCEL_ESCROW_TYPEHASH",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "CONFIRM_DELIVERY_TYPEHASH",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "CREATE_ESCROW_TYPEHASH",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "FUND_ESCROW_TYPEHASH",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "INITIATE_DISPUTE_TYPEHASH",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "STORE_DOCUMENT_TYPEHASH",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "cancelEscrow",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelEscrowMeta",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "_party",
+        type: "address",
+      },
+      {
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "confirmDelivery",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "confirmDeliveryMeta",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "_buyer",
+        type: "address",
+      },
+      {
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "createEscrow",
+    inputs: [
+      {
+        name: "_seller",
+        type: "address",
+      },
+      {
+        name: "_amount",
+        type: "uint256",
+      },
+      {
+        name: "_token",
+        type: "address",
+      },
+      {
+        name: "_deliveryDeadline",
+        type: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "createEscrowMeta",
+    inputs: [
+      {
+        name: "_seller",
+        type: "address",
+      },
+      {
+        name: "_amount",
+        type: "uint256",
+      },
+      {
+        name: "_token",
+        type: "address",
+      },
+      {
+        name: "_deliveryDeadline",
+        type: "uint256",
+      },
+      {
+        name: "_buyer",
+        type: "address",
+      },
+      {
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "disputeReasons",
+    inputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "eip712Domain",
+    inputs: [],
+    outputs: [
+      {
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        name: "name",
+        type: "string",
+      },
+      {
+        name: "version",
+        type: "string",
+      },
+      {
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "escrowDocuments",
+    inputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+      {
+        name: "",
+        type: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "escrows",
+    inputs: [
+      {
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    outputs: [
+      {
+        name: "buyer",
+        type: "address",
+      },
+      {
+        name: "seller",
+        type: "address",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        name: "deliveryDeadline",
+        type: "uint256",
+      },
+      {
+        name: "status",
+        type: "uint8",
+      },
+      {
+        name: "token",
+        type: "address",
+      },
+      {
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        name: "fundedAt",
+        type: "uint256",
+      },
+      {
+        name: "documentsUploaded",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "fundEscrow",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "fundEscrowMeta",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "_buyer",
+        type: "address",
+      },
+      {
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "fundEscrowWithPermitMeta",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "_buyer",
+        type: "address",
+      },
+      {
+        name: "_permitDeadline",
+        type: "uint256",
+      },
+      {
+        name: "_v",
+        type: "uint8",
+      },
+      {
+        name: "_r",
+        type: "bytes32",
+      },
+      {
+        name: "_s",
+        type: "bytes32",
+      },
+      {
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "getDocumentHashes",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getEscrowDetails",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+    ],
+    outputs: [
+      {
+        name: "buyer",
+        type: "address",
+      },
+      {
+        name: "seller",
+        type: "address",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        name: "deliveryDeadline",
+        type: "uint256",
+      },
+      {
+        name: "status",
+        type: "uint8",
+      },
+      {
+        name: "token",
+        type: "address",
+      },
+      {
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        name: "fundedAt",
+        type: "uint256",
+      },
+      {
+        name: "documentsUploaded",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "initiateDispute",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "_reason",
+        type: "string",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "initiateDisputeMeta",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "_reason",
+        type: "string",
+      },
+      {
+        name: "_initiator",
+        type: "address",
+      },
+      {
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "nonces",
+    inputs: [
+      {
+        name: "",
+        type: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "owner",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "renounceOwnership",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "resolveDispute",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "_refundBuyer",
+        type: "bool",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "storeDocumentHash",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "_documentHash",
+        type: "bytes32",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "storeDocumentHashMeta",
+    inputs: [
+      {
+        name: "_escrowId",
+        type: "bytes32",
+      },
+      {
+        name: "_documentHash",
+        type: "bytes32",
+      },
+      {
+        name: "_seller",
+        type: "address",
+      },
+      {
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "transferOwnership",
+    inputs: [
+      {
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "trustedForwarder",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "updateTrustedForwarder",
+    inputs: [
+      {
+        name: "_newForwarder",
+        type: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "event",
+    name: "DeliveryConfirmed",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+        indexed: true,
+      },
+      {
+        name: "timestamp",
+        type: "uint256",
+        indexed: false,
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "DisputeInitiated",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+        indexed: true,
+      },
+      {
+        name: "initiator",
+        type: "address",
+        indexed: false,
+      },
+      {
+        name: "reason",
+        type: "string",
+        indexed: false,
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "DocumentsUploaded",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+        indexed: true,
+      },
+      {
+        name: "documentHash",
+        type: "bytes32",
+        indexed: false,
+      },
+      {
+        name: "timestamp",
+        type: "uint256",
+        indexed: false,
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "EIP712DomainChanged",
+    inputs: [],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "EscrowCancelled",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+        indexed: true,
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "EscrowCreated",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+        indexed: true,
+      },
+      {
+        name: "buyer",
+        type: "address",
+        indexed: true,
+      },
+      {
+        name: "seller",
+        type: "address",
+        indexed: true,
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+      },
+      {
+        name: "deliveryDeadline",
+        type: "uint256",
+        indexed: false,
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "EscrowFunded",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+        indexed: true,
+      },
+      {
+        name: "timestamp",
+        type: "uint256",
+        indexed: false,
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "OwnershipTransferred",
+    inputs: [
+      {
+        name: "previousOwner",
+        type: "address",
+        indexed: true,
+      },
+      {
+        name: "newOwner",
+        type: "address",
+        indexed: true,
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "PaymentReleased",
+    inputs: [
+      {
+        name: "escrowId",
+        type: "bytes32",
+        indexed: true,
+      },
+      {
+        name: "recipient",
+        type: "address",
+        indexed: false,
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "error",
+    name: "ECDSAInvalidSignature",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "ECDSAInvalidSignatureLength",
+    inputs: [
+      {
+        name: "length",
+        type: "uint256",
+      },
+    ],
+  },
+  {
+    type: "error",
+    name: "ECDSAInvalidSignatureS",
+    inputs: [
+      {
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+  },
+  {
+    type: "error",
+    name: "InvalidShortString",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "OwnableInvalidOwner",
+    inputs: [
+      {
+        name: "owner",
+        type: "address",
+      },
+    ],
+  },
+  {
+    type: "error",
+    name: "OwnableUnauthorizedAccount",
+    inputs: [
+      {
+        name: "account",
+        type: "address",
+      },
+    ],
+  },
+  {
+    type: "error",
+    name: "ReentrancyGuardReentrantCall",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "SafeERC20FailedOperation",
+    inputs: [
+      {
+        name: "token",
+        type: "address",
+      },
+    ],
+  },
+  {
+    type: "error",
+    name: "StringTooLong",
+    inputs: [
+      {
+        name: "str",
+        type: "string",
+      },
+    ],
+  },
+] as const;
@@ -1,20 +1,139 @@
 import { createConfig } from "ponder";
+import { type Address, erc20Abi } from "viem";
 
-import { ExampleContractAbi } from "./abis/ExampleContractAbi";
+import { EscrowRelayerAbi } from "./abis/EscrowRelayerAbi";
+import { LiskEscrowAbi } from "./abis/LiskEscrowAbi";
+
+// Per-chain deployments from env, keyed by chain id like the relayer's
+// CHAIN_ID. A chain is only indexed when its escrow address is set, so one
+// indexer can serve the local Anvil stack, Lisk Sepolia, or both. The
+// EscrowRelayer is optional per chain; without an address Ponder would match
+// its events on every contract, so it is left out instead.
+const chainIds = {
+  anvil: 31337,
+  liskSepolia: 4202,
+} as const;
+
+type ChainName = keyof typeof chainIds;
+
+// Empty values, as left by .env.example, count as unset
+function address(contract: string, chain: ChainName) {
+  return (process.env[`${contract}_${chainIds[chain]}`] || undefined) as
+    | Address
+    | undefined;
+}
+
+function startBlock(chain: ChainName) {
+  return Number(process.env[`ESCROW_START_BLOCK_${chainIds[chain]}`] ?? 0);
+}
+
+const enabledChains = (Object.keys(chainIds) as ChainName[]).filter(
+  (chain) => address("ESCROW_CONTRACT", chain) !== undefined,
+);
+
+const relayerChains = enabledChains.filter(
+  (chain) => address("RELAYER_CONTRACT", chain) !== undefined,
+);
+
+// Comma-separated ERC-20s whose transfers are indexed, e.g. MockUSDC and any
+// other stablecoin escrows are created in
+function tokenAddresses(chain: ChainName) {
+  return (process.env[`TOKEN_CONTRACTS_${chainIds[chain]}`] ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean) as Address[];
+}
+
+const tokenChains = enabledChains.filter(
+  (chain) => tokenAddresses(chain).length > 0,
+);
+
+// Drops unconfigured chains at runtime while keeping the full set of chain
+// names in the types, so indexing functions are checked against every chain.
+function onChains<T extends Record<ChainName, unknown>>(
+  chains: ChainName[],
+  entries: T,
+): T {
+  return Object.fromEntries(
+    chains.map((chain) => [chain, entries[chain]]),
+  ) as T;
+}
+
+function onEnabledChains<T extends Record<ChainName, unknown>>(entries: T): T {
+  return onChains(enabledChains, entries);
+}
 
 export default createConfig({
-  chains: {
-    mainnet: {
-      id: 1,
-      rpc: process.env.PONDER_RPC_URL_1!,
+  // The integration tests index into a throwaway PGlite directory so they
+  // never touch .ponder/ or DATABASE_URL
+  database: process.env.PONDER_PGLITE_DIRECTORY
+    ? { kind: "pglite", directory: process.env.PONDER_PGLITE_DIRECTORY }
+    : undefined,
+  chains: onEnabledChains({
+    anvil: {
+      id: chainIds.anvil,
+      rpc: process.env.PONDER_RPC_URL_31337 ?? "http://localhost:8545",
+      // Anvil mines on demand, so poll faster than the default
+      pollingInterval: 500,
     },
-  },
+    liskSepolia: {
+      id: chainIds.liskSepolia,
+      rpc: process.env.PONDER_RPC_URL_4202 ?? "https://rpc.sepolia-api.lisk.com",
+    },
+  }),
   contracts: {
-    ExampleContract: {
-      chain: "mainnet",
-      abi: ExampleContractAbi,
-      address: "0x0000000000000000000000000000000000000000",
-      startBlock: 1234567,
+    LiskEscrow: {
+      abi: LiskEscrowAbi,
+      // For the gas used by each escrow event's transaction
+      includeTransactionReceipts: true,
+      chain: onEnabledChains({
+        anvil: {
+          address: address("ESCROW_CONTRACT", "anvil"),
+          startBlock: startBlock("anvil"),
+        },
+        liskSepolia: {
+          address: address("ESCROW_CONTRACT", "liskSepolia"),
+          startBlock: startBlock("liskSepolia"),
+        },
+      }),
+    },
+    EscrowRelayer: {
+      abi: EscrowRelayerAbi,
+      // Receipts carry the gas used and price paid for each relayed call
+      includeTransactionReceipts: true,
+      chain: onChains(relayerChains, {
+        anvil: {
+          address: address("RELAYER_CONTRACT", "anvil"),
+          startBlock: startBlock("anvil"),
+        },
+        liskSepolia: {
+          address: address("RELAYER_CONTRACT", "liskSepolia"),
+          startBlock: startBlock("liskSepolia"),
+        },
+      }),
+    },
+    EscrowToken: {
+      abi: erc20Abi,
+      chain: onChains(tokenChains, {
+        anvil: {
+          address: tokenAddresses("anvil"),
+          startBlock: startBlock("anvil"),
+        },
+        liskSepolia: {
+          address: tokenAddresses("liskSepolia"),
+          startBlock: startBlock("liskSepolia"),
+        },
+      }),
+    },
+  },
+  blocks: {
+    // Flags escrows whose delivery deadline passed while still open. Roughly
+    // once a minute on Lisk Sepolia (2s blocks); Anvil only mines on demand.
+    OverdueCheck: {
+      chain: onEnabledChains({
+        anvil: { startBlock: startBlock("anvil"), interval: 1 },
+        liskSepolia: { startBlock: startBlock("liskSepolia"), interval: 30 },
+      }),
     },
   },
 });
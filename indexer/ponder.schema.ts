@@ -1,6 +1,362 @@
-import { onchainTable } from "ponder";
+import { index, onchainEnum, onchainTable, primaryKey, relations } from "ponder";
 
-export const example = onchainTable("example", (t) => ({
-  id: t.text().primaryKey(),
-  name: t.text(),
+// Every table carries chainId so one indexer can serve several deployments
+
+// Mirrors LiskEscrow.EscrowStatus
+export const escrowStatus = onchainEnum("escrow_status", [
+  "CREATED",
+  "FUNDED",
+  "DOCUMENTS_PENDING",
+  "SETTLED",
+  "CANCELLED",
+  "DISPUTED",
+]);
+
+export const escrowEventType = onchainEnum("escrow_event_type", [
+  "CREATED",
+  "FUNDED",
+  "DOCUMENT_UPLOADED",
+  "DELIVERY_CONFIRMED",
+  "PAYMENT_RELEASED",
+  "CANCELLED",
+  "DISPUTED",
+]);
+
+export const escrow = onchainTable(
+  "escrow",
+  (t) => ({
+    chainId: t.integer().notNull(),
+    id: t.hex().notNull(),
+    buyer: t.hex().notNull(),
+    seller: t.hex().notNull(),
+    amount: t.bigint().notNull(),
+    token: t.hex().notNull(),
+    deliveryDeadline: t.bigint().notNull(),
+    status: escrowStatus("status").notNull(),
+    documentCount: t.integer().notNull().default(0),
+    // Recipient of PaymentReleased: the seller, or the buyer on a refund
+    releasedTo: t.hex(),
+    // Still CREATED, FUNDED or DOCUMENTS_PENDING after deliveryDeadline.
+    // Set by the OverdueCheck block handler, cleared when the escrow closes.
+    overdue: t.boolean().notNull().default(false),
+    createdAt: t.bigint().notNull(),
+    fundedAt: t.bigint(),
+    settledAt: t.bigint(),
+    updatedAt: t.bigint().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({ columns: [table.chainId, table.id] }),
+    buyerIdx: index().on(table.buyer),
+    sellerIdx: index().on(table.seller),
+    statusIdx: index().on(table.status),
+    overdueIdx: index().on(table.overdue),
+  }),
+);
+
+// ERC-20 metadata, read from the token contract the first time an escrow uses it
+export const token = onchainTable(
+  "token",
+  (t) => ({
+    chainId: t.integer().notNull(),
+    address: t.hex().notNull(),
+    // Null when the token does not implement the optional getter
+    symbol: t.text(),
+    name: t.text(),
+    decimals: t.integer().notNull(),
+    firstSeenAt: t.bigint().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({ columns: [table.chainId, table.address] }),
+  }),
+);
+
+// One row per escrow log, used for timelines and transaction history
+export const escrowEvent = onchainTable(
+  "escrow_event",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    escrowId: t.hex().notNull(),
+    type: escrowEventType("type").notNull(),
+    actor: t.hex(),
+    amount: t.bigint(),
+    timestamp: t.bigint().notNull(),
+    blockNumber: t.bigint().notNull(),
+    logIndex: t.integer().notNull(),
+    transactionHash: t.hex().notNull(),
+    // tx.from: the party itself, or the relayer that sponsored the call
+    sender: t.hex().notNull(),
+    // tx.to was the EscrowRelayer, i.e. a gasless *Meta call
+    relayed: t.boolean().notNull(),
+    gasUsed: t.bigint().notNull(),
+  }),
+  (table) => ({
+    escrowIdx: index().on(table.chainId, table.escrowId),
+    actorIdx: index().on(table.actor),
+    transactionHashIdx: index().on(table.transactionHash),
+  }),
+);
+
+// Mirrors LiskEscrow.escrowDocuments, keyed by position in the on-chain array
+export const escrowDocument = onchainTable(
+  "escrow_document",
+  (t) => ({
+    chainId: t.integer().notNull(),
+    escrowId: t.hex().notNull(),
+    position: t.integer().notNull(),
+    documentHash: t.hex().notNull(),
+    uploader: t.hex().notNull(),
+    // Account that sent the transaction; differs from uploader when relayed
+    submitter: t.hex().notNull(),
+    relayed: t.boolean().notNull(),
+    timestamp: t.bigint().notNull(),
+    blockNumber: t.bigint().notNull(),
+    transactionHash: t.hex().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({ columns: [table.chainId, table.escrowId, table.position] }),
+    documentHashIdx: index().on(table.documentHash),
+  }),
+);
+
+// Links DisputeInitiated to the PaymentReleased from resolveDispute. An
+// escrow settles when its dispute is resolved, so it has at most one.
+export const dispute = onchainTable(
+  "dispute",
+  (t) => ({
+    chainId: t.integer().notNull(),
+    escrowId: t.hex().notNull(),
+    buyer: t.hex().notNull(),
+    seller: t.hex().notNull(),
+    amount: t.bigint().notNull(),
+    token: t.hex().notNull(),
+    initiator: t.hex().notNull(),
+    reason: t.text().notNull(),
+    initiatedAt: t.bigint().notNull(),
+    transactionHash: t.hex().notNull(),
+    // Null while the dispute is open
+    resolvedAt: t.bigint(),
+    // Seconds from initiation to resolution
+    resolutionTime: t.bigint(),
+    refundedBuyer: t.boolean(),
+    resolutionTransactionHash: t.hex(),
+  }),
+  (table) => ({
+    pk: primaryKey({ columns: [table.chainId, table.escrowId] }),
+    buyerIdx: index().on(table.buyer),
+    sellerIdx: index().on(table.seller),
+    initiatedAtIdx: index().on(table.initiatedAt),
+  }),
+);
+
+// One row per EscrowRelayer.TransactionRelayed, i.e. one sponsored action
+export const relayedTransaction = onchainTable(
+  "relayed_transaction",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    // User who signed the meta-transaction
+    user: t.hex().notNull(),
+    // Relayer function name, e.g. "createEscrow" or "storeDocument"
+    action: t.text().notNull(),
+    // Escrow touched by the relayed call: the escrow_event row with the same
+    // transaction hash. LiskEscrow logs precede TransactionRelayed in the
+    // transaction and Ponder indexes logs in order, so that row exists by
+    // then. Null when the call emitted no escrow event.
+    escrowId: t.hex(),
+    relayer: t.hex().notNull(),
+    gasUsed: t.bigint().notNull(),
+    effectiveGasPrice: t.bigint().notNull(),
+    timestamp: t.bigint().notNull(),
+    blockNumber: t.bigint().notNull(),
+    transactionHash: t.hex().notNull(),
+  }),
+  (table) => ({
+    userIdx: index().on(table.chainId, table.user),
+    escrowIdx: index().on(table.chainId, table.escrowId),
+    transactionHashIdx: index().on(table.transactionHash),
+  }),
+);
+
+// Mirrors LiskEscrow.nonces. The *Meta functions only accept calls from the
+// EscrowRelayer and each bumps the signer's nonce, so it equals the number of
+// TransactionRelayed events for the user.
+export const metaNonce = onchainTable(
+  "meta_nonce",
+  (t) => ({
+    chainId: t.integer().notNull(),
+    user: t.hex().notNull(),
+    nonce: t.bigint().notNull(),
+    updatedAt: t.bigint().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({ columns: [table.chainId, table.user] }),
+  }),
+);
+
+// Current authorization state of every relayer account seen on-chain
+export const relayer = onchainTable(
+  "relayer",
+  (t) => ({
+    chainId: t.integer().notNull(),
+    address: t.hex().notNull(),
+    authorized: t.boolean().notNull(),
+    // Null for the deployer, which the constructor authorizes without an event
+    authorizedAt: t.bigint(),
+    revokedAt: t.bigint(),
+    updatedAt: t.bigint().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({ columns: [table.chainId, table.address] }),
+  }),
+);
+
+// Per-address, per-token activity bucketed by UTC day and month for charts.
+// Funded and refunded volume count towards both parties; released volume
+// only towards the seller who was paid out.
+export const volumeDaily = onchainTable(
+  "volume_daily",
+  (t) => ({
+    chainId: t.integer().notNull(),
+    address: t.hex().notNull(),
+    token: t.hex().notNull(),
+    // Unix seconds at the start of the UTC day
+    periodStart: t.bigint().notNull(),
+    createdCount: t.integer().notNull().default(0),
+    fundedCount: t.integer().notNull().default(0),
+    fundedVolume: t.bigint().notNull().default(0n),
+    releasedCount: t.integer().notNull().default(0),
+    releasedVolume: t.bigint().notNull().default(0n),
+    refundedCount: t.integer().notNull().default(0),
+    refundedVolume: t.bigint().notNull().default(0n),
+  }),
+  (table) => ({
+    pk: primaryKey({
+      columns: [table.chainId, table.address, table.token, table.periodStart],
+    }),
+    addressIdx: index().on(table.address, table.periodStart),
+  }),
+);
+
+export const volumeMonthly = onchainTable(
+  "volume_monthly",
+  (t) => ({
+    chainId: t.integer().notNull(),
+    address: t.hex().notNull(),
+    token: t.hex().notNull(),
+    // Unix seconds at the start of the UTC month
+    periodStart: t.bigint().notNull(),
+    createdCount: t.integer().notNull().default(0),
+    fundedCount: t.integer().notNull().default(0),
+    fundedVolume: t.bigint().notNull().default(0n),
+    releasedCount: t.integer().notNull().default(0),
+    releasedVolume: t.bigint().notNull().default(0n),
+    refundedCount: t.integer().notNull().default(0),
+    refundedVolume: t.bigint().notNull().default(0n),
+  }),
+  (table) => ({
+    pk: primaryKey({
+      columns: [table.chainId, table.address, table.token, table.periodStart],
+    }),
+    addressIdx: index().on(table.address, table.periodStart),
+  }),
+);
+
+// Addresses that have been buyer or seller of an escrow. Token transfers are
+// only indexed for these.
+export const party = onchainTable(
+  "party",
+  (t) => ({
+    chainId: t.integer().notNull(),
+    address: t.hex().notNull(),
+    firstSeenAt: t.bigint().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({ columns: [table.chainId, table.address] }),
+  }),
+);
+
+// Current balance of a party in a tracked token. Opened with balanceOf at the
+// block the address became a party, then kept up to date from Transfer logs.
+export const tokenBalance = onchainTable(
+  "token_balance",
+  (t) => ({
+    chainId: t.integer().notNull(),
+    token: t.hex().notNull(),
+    account: t.hex().notNull(),
+    balance: t.bigint().notNull(),
+    // Block whose closing balance the row was opened with; transfers up to
+    // and including it are already part of `balance`
+    openedAt: t.bigint().notNull(),
+    updatedAt: t.bigint().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({ columns: [table.chainId, table.token, table.account] }),
+    accountIdx: index().on(table.account),
+  }),
+);
+
+export const transferDirection = onchainEnum("transfer_direction", [
+  "IN",
+  "OUT",
+]);
+
+// One row per party side of a Transfer, so a transfer between two parties is
+// stored twice. balanceAfter makes each account's rows a balance history.
+export const tokenTransfer = onchainTable(
+  "token_transfer",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    token: t.hex().notNull(),
+    account: t.hex().notNull(),
+    counterparty: t.hex().notNull(),
+    direction: transferDirection("direction").notNull(),
+    amount: t.bigint().notNull(),
+    balanceAfter: t.bigint().notNull(),
+    // The counterparty is the LiskEscrow contract: funding, release or refund
+    escrowTransfer: t.boolean().notNull(),
+    timestamp: t.bigint().notNull(),
+    blockNumber: t.bigint().notNull(),
+    logIndex: t.integer().notNull(),
+    transactionHash: t.hex().notNull(),
+  }),
+  (table) => ({
+    accountIdx: index().on(table.chainId, table.account, table.timestamp),
+    tokenIdx: index().on(table.token),
+  }),
+);
+
+export const escrowRelations = relations(escrow, ({ many, one }) => ({
+  events: many(escrowEvent),
+  documents: many(escrowDocument),
+  relayedTransactions: many(relayedTransaction),
+  dispute: one(dispute, {
+    fields: [escrow.chainId, escrow.id],
+    references: [dispute.chainId, dispute.escrowId],
+  }),
 }));
+
+export const escrowEventRelations = relations(escrowEvent, ({ one }) => ({
+  escrow: one(escrow, {
+    fields: [escrowEvent.chainId, escrowEvent.escrowId],
+    references: [escrow.chainId, escrow.id],
+  }),
+}));
+
+export const escrowDocumentRelations = relations(escrowDocument, ({ one }) => ({
+  escrow: one(escrow, {
+    fields: [escrowDocument.chainId, escrowDocument.escrowId],
+    references: [escrow.chainId, escrow.id],
+  }),
+}));
+
+export const relayedTransactionRelations = relations(
+  relayedTransaction,
+  ({ one }) => ({
+    escrow: one(escrow, {
+      fields: [relayedTransaction.chainId, relayedTransaction.escrowId],
+      references: [escrow.chainId, escrow.id],
+    }),
+  }),
+);
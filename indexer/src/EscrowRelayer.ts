@@ -0,0 +1,100 @@
+import { ponder } from "ponder:registry";
+import {
+  escrowEvent,
+  metaNonce,
+  relayedTransaction,
+  relayer,
+} from "ponder:schema";
+import { and, eq } from "ponder";
+
+ponder.on("EscrowRelayer:TransactionRelayed", async ({ event, context }) => {
+  const { user, action } = event.args;
+  const receipt = event.transactionReceipt;
+
+  // Every relay function forwards to one LiskEscrow *Meta call, whose logs
+  // come earlier in the same transaction and are already indexed
+  const [escrowLog] = await context.db.sql
+    .select({ escrowId: escrowEvent.escrowId })
+    .from(escrowEvent)
+    .where(
+      and(
+        eq(escrowEvent.chainId, context.chain.id),
+        eq(escrowEvent.transactionHash, event.transaction.hash),
+      ),
+    )
+    .limit(1);
+
+  await context.db.insert(relayedTransaction).values({
+    id: event.id,
+    chainId: context.chain.id,
+    user,
+    action,
+    escrowId: escrowLog?.escrowId ?? null,
+    relayer: event.transaction.from,
+    gasUsed: receipt.gasUsed,
+    effectiveGasPrice: receipt.effectiveGasPrice,
+    timestamp: event.block.timestamp,
+    blockNumber: event.block.number,
+    transactionHash: event.transaction.hash,
+  });
+
+  await context.db
+    .insert(metaNonce)
+    .values({
+      chainId: context.chain.id,
+      user,
+      nonce: 1n,
+      updatedAt: event.block.timestamp,
+    })
+    .onConflictDoUpdate((row) => ({
+      nonce: row.nonce + 1n,
+      updatedAt: event.block.timestamp,
+    }));
+
+  // The deployer is authorized in the constructor without an event, so it
+  // first shows up here
+  await context.db
+    .insert(relayer)
+    .values({
+      chainId: context.chain.id,
+      address: event.transaction.from,
+      authorized: true,
+      updatedAt: event.block.timestamp,
+    })
+    .onConflictDoNothing();
+});
+
+ponder.on("EscrowRelayer:RelayerAuthorized", async ({ event, context }) => {
+  await context.db
+    .insert(relayer)
+    .values({
+      chainId: context.chain.id,
+      address: event.args.relayer,
+      authorized: true,
+      authorizedAt: event.block.timestamp,
+      updatedAt: event.block.timestamp,
+    })
+    .onConflictDoUpdate({
+      authorized: true,
+      authorizedAt: event.block.timestamp,
+      revokedAt: null,
+      updatedAt: event.block.timestamp,
+    });
+});
+
+ponder.on("EscrowRelayer:RelayerRevoked", async ({ event, context }) => {
+  await context.db
+    .insert(relayer)
+    .values({
+      chainId: context.chain.id,
+      address: event.args.relayer,
+      authorized: false,
+      revokedAt: event.block.timestamp,
+      updatedAt: event.block.timestamp,
+    })
+    .onConflictDoUpdate({
+      authorized: false,
+      revokedAt: event.block.timestamp,
+      updatedAt: event.block.timestamp,
+    });
+});
@@ -0,0 +1,81 @@
+import { ponder } from "ponder:registry";
+import { party, tokenBalance, tokenTransfer } from "ponder:schema";
+import { erc20Abi } from "viem";
+
+ponder.on("EscrowToken:Transfer", async ({ event, context }) => {
+  const { from, to, value } = event.args;
+  const tokenAddress = event.log.address;
+  const escrowAddress = context.contracts.LiskEscrow.address?.toLowerCase();
+
+  // Outgoing side first so a self-transfer nets to zero in order
+  const sides = [
+    { account: from, counterparty: to, direction: "OUT" as const },
+    { account: to, counterparty: from, direction: "IN" as const },
+  ];
+
+  for (const { account, counterparty, direction } of sides) {
+    const isParty = await context.db.find(party, {
+      chainId: context.chain.id,
+      address: account,
+    });
+    if (!isParty) continue;
+
+    // Parties get a balance in every tracked token when they join; one that
+    // is missing starts from the on-chain balance at the previous block
+    const current = await context.db.find(tokenBalance, {
+      chainId: context.chain.id,
+      token: tokenAddress,
+      account,
+    });
+
+    let balanceAfter: bigint;
+    if (current && event.block.number <= current.openedAt) {
+      // Already in the balance the row was opened with, at the end of the
+      // block the account became a party in
+      balanceAfter = current.balance;
+    } else {
+      const balanceBefore =
+        current?.balance ??
+        (await context.client.readContract({
+          abi: erc20Abi,
+          address: tokenAddress,
+          functionName: "balanceOf",
+          args: [account],
+          blockNumber: event.block.number - 1n,
+        }));
+      balanceAfter =
+        direction === "IN" ? balanceBefore + value : balanceBefore - value;
+
+      await context.db
+        .insert(tokenBalance)
+        .values({
+          chainId: context.chain.id,
+          token: tokenAddress,
+          account,
+          balance: balanceAfter,
+          openedAt: event.block.number - 1n,
+          updatedAt: event.block.timestamp,
+        })
+        .onConflictDoUpdate({
+          balance: balanceAfter,
+          updatedAt: event.block.timestamp,
+        });
+    }
+
+    await context.db.insert(tokenTransfer).values({
+      id: `${event.id}-${direction}`,
+      chainId: context.chain.id,
+      token: tokenAddress,
+      account,
+      counterparty,
+      direction,
+      amount: value,
+      balanceAfter,
+      escrowTransfer: counterparty.toLowerCase() === escrowAddress,
+      timestamp: event.block.timestamp,
+      blockNumber: event.block.number,
+      logIndex: event.log.logIndex,
+      transactionHash: event.transaction.hash,
+    });
+  }
+});
@@ -0,0 +1,123 @@
+import { db } from "ponder:api";
+import { escrow, escrowEvent, token } from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, eq, gte, inArray, lte } from "ponder";
+
+import { serializeCashFlow } from "./serializers";
+import {
+  badRequest,
+  parseAddress,
+  parseChainId,
+  parseTimestamp,
+} from "./utils";
+import type { CashFlow, Items } from "./types";
+
+const CSV_COLUMNS = [
+  "date",
+  "type",
+  "direction",
+  "amount",
+  "symbol",
+  "token",
+  "counterparty",
+  "escrowId",
+  "transactionHash",
+  "blockNumber",
+  "chainId",
+  "rawAmount",
+] as const satisfies readonly (keyof CashFlow)[];
+
+function toCsv(rows: CashFlow[]) {
+  const escape = (value: string | number | null) => {
+    let text = value === null ? "" : String(value);
+    // Token symbols come from arbitrary contracts; a leading quote keeps
+    // spreadsheets from evaluating a cell like "=HYPERLINK(...)" as a formula
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) =>
+      CSV_COLUMNS.map((column) => escape(row[column])).join(","),
+    ),
+  ].join("\r\n");
+}
+
+const app = new Hono();
+
+/**
+ * GET /cash-flows?address=&from=&to=&chainId=&format=json|csv
+ * Every escrow cash movement of an address, oldest first: funds paid into
+ * escrow, payments released to the seller and refunds to the buyer. Amounts
+ * are formatted with the token's decimals for accounting imports.
+ */
+app.get("/", async (c) => {
+  const address = parseAddress(c.req.query("address"));
+  if (!address) return badRequest(c, "Invalid or missing address");
+
+  const format = c.req.query("format") ?? "json";
+  if (format !== "json" && format !== "csv") {
+    return badRequest(c, "Invalid format, expected json or csv");
+  }
+
+  const fromParam = c.req.query("from");
+  const from = parseTimestamp(fromParam);
+  if (fromParam !== undefined && from === undefined) {
+    return badRequest(c, "Invalid from");
+  }
+
+  const toParam = c.req.query("to");
+  const to = parseTimestamp(toParam);
+  if (toParam !== undefined && to === undefined) {
+    return badRequest(c, "Invalid to");
+  }
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  // FUNDED events carry the buyer as actor and PAYMENT_RELEASED events the
+  // recipient, so the actor is always the party whose money moved
+  const rows = await db
+    .select()
+    .from(escrowEvent)
+    .innerJoin(
+      escrow,
+      and(
+        eq(escrow.chainId, escrowEvent.chainId),
+        eq(escrow.id, escrowEvent.escrowId),
+      ),
+    )
+    .leftJoin(
+      token,
+      and(eq(token.chainId, escrow.chainId), eq(token.address, escrow.token)),
+    )
+    .where(
+      and(
+        eq(escrowEvent.actor, address),
+        inArray(escrowEvent.type, ["FUNDED", "PAYMENT_RELEASED"]),
+        from !== undefined ? gte(escrowEvent.timestamp, from) : undefined,
+        to !== undefined ? lte(escrowEvent.timestamp, to) : undefined,
+        chainId !== undefined ? eq(escrowEvent.chainId, chainId) : undefined,
+      ),
+    )
+    .orderBy(asc(escrowEvent.timestamp), asc(escrowEvent.id));
+
+  const items = rows.map((row) =>
+    serializeCashFlow(row.escrow_event, row.escrow, row.token),
+  );
+
+  if (format === "csv") {
+    c.header("Content-Type", "text/csv; charset=utf-8");
+    c.header(
+      "Content-Disposition",
+      `attachment; filename="escrow-cash-flows-${address}.csv"`,
+    );
+    return c.body(toCsv(items));
+  }
+  return c.json({ items } satisfies Items<CashFlow>);
+});
+
+export default app;
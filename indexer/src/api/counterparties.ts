@@ -0,0 +1,155 @@
+import { db } from "ponder:api";
+import { dispute, escrow, token } from "ponder:schema";
+import { Hono } from "hono";
+import { and, count, eq, inArray, max, or, sql } from "ponder";
+import type { Address } from "viem";
+
+import { DEFAULT_DECIMALS } from "../tokens";
+import {
+  type CounterpartyTotals,
+  serializeCounterparty,
+  settledVolume,
+} from "./serializers";
+import { badRequest, parseAddress, parseChainId, parseLimit } from "./utils";
+import type { Counterparty, Items } from "./types";
+
+const sorts = {
+  volume: (a: CounterpartyTotals, b: CounterpartyTotals) =>
+    compare(settledVolume(a), settledVolume(b)),
+  escrows: (a: CounterpartyTotals, b: CounterpartyTotals) =>
+    a.escrowCount - b.escrowCount,
+  disputes: (a: CounterpartyTotals, b: CounterpartyTotals) =>
+    a.disputeCount - b.disputeCount,
+  recent: (a: CounterpartyTotals, b: CounterpartyTotals) =>
+    compare(a.lastActivityAt, b.lastActivityAt),
+};
+
+function compare(a: bigint, b: bigint) {
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+const app = new Hono();
+
+/**
+ * GET /counterparties?address=&sort=volume|escrows|disputes|recent&chainId=&limit=
+ * Everyone an address has escrows with, ranked descending by the sort key
+ * (settled volume by default) and then by most recent activity.
+ */
+app.get("/", async (c) => {
+  const address = parseAddress(c.req.query("address"));
+  if (!address) return badRequest(c, "Invalid or missing address");
+
+  const sort = c.req.query("sort") ?? "volume";
+  if (!(sort in sorts)) {
+    return badRequest(
+      c,
+      "Invalid sort, expected volume, escrows, disputes or recent",
+    );
+  }
+  const sortBy = sorts[sort as keyof typeof sorts];
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  if (limit === undefined) return badRequest(c, "Invalid limit");
+
+  // Completed trades only; refunds after a dispute are not volume
+  const settled = sql`${escrow.status} = 'SETTLED' and ${escrow.releasedTo} = ${escrow.seller}`;
+
+  const rows = await db
+    .select({
+      chainId: escrow.chainId,
+      buyer: escrow.buyer,
+      seller: escrow.seller,
+      token: escrow.token,
+      escrowCount: count(),
+      settledCount: sql<number>`count(*) filter (where ${settled})`.mapWith(
+        Number,
+      ),
+      settledVolume:
+        sql<bigint>`coalesce(sum(${escrow.amount}) filter (where ${settled}), 0)`.mapWith(
+          BigInt,
+        ),
+      disputeCount: count(dispute.escrowId),
+      lastActivityAt: max(escrow.updatedAt),
+    })
+    .from(escrow)
+    .leftJoin(
+      dispute,
+      and(eq(dispute.chainId, escrow.chainId), eq(dispute.escrowId, escrow.id)),
+    )
+    .where(
+      and(
+        or(eq(escrow.buyer, address), eq(escrow.seller, address)),
+        chainId !== undefined ? eq(escrow.chainId, chainId) : undefined,
+      ),
+    )
+    .groupBy(escrow.chainId, escrow.buyer, escrow.seller, escrow.token);
+
+  const tokens =
+    rows.length === 0
+      ? []
+      : await db
+          .select()
+          .from(token)
+          .where(
+            inArray(
+              token.address,
+              rows.map((row) => row.token),
+            ),
+          );
+  const tokenOf = (chainId: number, address: Address) =>
+    tokens.find((row) => row.chainId === chainId && row.address === address);
+
+  // One row per side and token above; fold them into one entry per counterparty
+  const totals = new Map<string, CounterpartyTotals>();
+  for (const row of rows) {
+    const counterparty = row.buyer === address ? row.seller : row.buyer;
+    const key = `${row.chainId}:${counterparty}`;
+    const entry = totals.get(key) ?? {
+      chainId: row.chainId,
+      counterparty,
+      escrowCount: 0,
+      settledCount: 0,
+      disputeCount: 0,
+      lastActivityAt: 0n,
+      volumes: [],
+    };
+    entry.escrowCount += row.escrowCount;
+    entry.settledCount += row.settledCount;
+    entry.disputeCount += row.disputeCount;
+    if (
+      row.lastActivityAt !== null &&
+      row.lastActivityAt > entry.lastActivityAt
+    ) {
+      entry.lastActivityAt = row.lastActivityAt;
+    }
+    const volume = entry.volumes.find((v) => v.token === row.token);
+    if (volume) {
+      volume.settledVolume += row.settledVolume;
+    } else {
+      const tokenRow = tokenOf(row.chainId, row.token);
+      entry.volumes.push({
+        token: row.token,
+        symbol: tokenRow?.symbol ?? null,
+        decimals: tokenRow?.decimals ?? DEFAULT_DECIMALS,
+        settledVolume: row.settledVolume,
+      });
+    }
+    totals.set(key, entry);
+  }
+
+  const items = [...totals.values()]
+    .sort((a, b) => sortBy(b, a) || sorts.recent(b, a))
+    .slice(0, limit);
+
+  return c.json({
+    items: items.map(serializeCounterparty),
+  } satisfies Items<Counterparty>);
+});
+
+export default app;
@@ -0,0 +1,140 @@
+import { db } from "ponder:api";
+import { dispute, escrowEvent } from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, desc, eq, isNotNull, isNull, or, sql } from "ponder";
+
+import { serializeDispute, serializeEvent } from "./serializers";
+import {
+  badRequest,
+  decodeIdCursor,
+  encodeCursor,
+  notFound,
+  parseAddress,
+  parseBytes32,
+  parseChainId,
+  parseLimit,
+} from "./utils";
+import type { Dispute, DisputeDetail, Page } from "./types";
+
+const app = new Hono();
+
+/**
+ * GET /disputes?address=&status=&chainId=&cursor=&limit=
+ * Disputes newest first. Without `address` every dispute is listed, for
+ * support staff.
+ */
+app.get("/", async (c) => {
+  const addressParam = c.req.query("address");
+  const address = parseAddress(addressParam);
+  if (addressParam !== undefined && !address) {
+    return badRequest(c, "Invalid address");
+  }
+
+  const status = c.req.query("status");
+  if (status !== undefined && status !== "OPEN" && status !== "RESOLVED") {
+    return badRequest(c, "Invalid status, expected OPEN or RESOLVED");
+  }
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  if (limit === undefined) return badRequest(c, "Invalid limit");
+
+  const filters = [
+    address
+      ? or(eq(dispute.buyer, address), eq(dispute.seller, address))
+      : undefined,
+    status === "OPEN"
+      ? isNull(dispute.resolvedAt)
+      : status === "RESOLVED"
+        ? isNotNull(dispute.resolvedAt)
+        : undefined,
+    chainId !== undefined ? eq(dispute.chainId, chainId) : undefined,
+  ];
+
+  const cursorParam = c.req.query("cursor");
+  if (cursorParam !== undefined) {
+    const cursor = decodeIdCursor(cursorParam);
+    if (!cursor) return badRequest(c, "Invalid cursor");
+    const [initiatedAt, cursorChainId, escrowId] = cursor;
+    filters.push(
+      sql`(${dispute.initiatedAt}, ${dispute.chainId}, ${dispute.escrowId}) < (${initiatedAt}, ${cursorChainId}, ${escrowId})`,
+    );
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
+    .select()
+    .from(dispute)
+    .where(and(...filters))
+    .orderBy(
+      desc(dispute.initiatedAt),
+      desc(dispute.chainId),
+      desc(dispute.escrowId),
+    )
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return c.json({
+    items: page.map(serializeDispute),
+    nextCursor:
+      rows.length > limit && last
+        ? encodeCursor([
+            last.initiatedAt.toString(),
+            last.chainId,
+            last.escrowId,
+          ])
+        : null,
+  } satisfies Page<Dispute>);
+});
+
+/**
+ * GET /disputes/:escrowId?chainId=
+ * A dispute with the full timeline of its escrow.
+ */
+app.get("/:escrowId", async (c) => {
+  const escrowId = parseBytes32(c.req.param("escrowId"));
+  if (!escrowId) return badRequest(c, "Invalid escrow id");
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const [row] = await db
+    .select()
+    .from(dispute)
+    .where(
+      and(
+        eq(dispute.escrowId, escrowId),
+        chainId !== undefined ? eq(dispute.chainId, chainId) : undefined,
+      ),
+    )
+    .limit(1);
+  if (!row) return notFound(c, "Dispute not found");
+
+  const events = await db
+    .select()
+    .from(escrowEvent)
+    .where(
+      and(
+        eq(escrowEvent.chainId, row.chainId),
+        eq(escrowEvent.escrowId, row.escrowId),
+      ),
+    )
+    .orderBy(asc(escrowEvent.id));
+
+  return c.json({
+    ...serializeDispute(row),
+    events: events.map(serializeEvent),
+  } satisfies DisputeDetail);
+});
+
+export default app;
@@ -0,0 +1,104 @@
+import { db } from "ponder:api";
+import { escrow, escrowDocument } from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, desc, eq, or } from "ponder";
+
+import { serializeDocumentAnchor } from "./serializers";
+import {
+  badRequest,
+  notFound,
+  parseAddress,
+  parseBytes32,
+  parseChainId,
+} from "./utils";
+import type { DocumentAnchor, DocumentLookup, Items } from "./types";
+
+const app = new Hono();
+
+/**
+ * GET /documents?address=&chainId=
+ * Documents anchored to escrows where the address is buyer or seller, newest
+ * upload first, for listing a party's paperwork by contract.
+ */
+app.get("/", async (c) => {
+  const address = parseAddress(c.req.query("address"));
+  if (!address) return badRequest(c, "Invalid or missing address");
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const rows = await db
+    .select()
+    .from(escrowDocument)
+    .innerJoin(
+      escrow,
+      and(
+        eq(escrow.chainId, escrowDocument.chainId),
+        eq(escrow.id, escrowDocument.escrowId),
+      ),
+    )
+    .where(
+      and(
+        or(eq(escrow.buyer, address), eq(escrow.seller, address)),
+        chainId !== undefined ? eq(escrowDocument.chainId, chainId) : undefined,
+      ),
+    )
+    .orderBy(
+      desc(escrowDocument.timestamp),
+      asc(escrowDocument.escrowId),
+      desc(escrowDocument.position),
+    );
+
+  return c.json({
+    items: rows.map((row) =>
+      serializeDocumentAnchor(row.escrow_document, row.escrow),
+    ),
+  } satisfies Items<DocumentAnchor>);
+});
+
+/**
+ * GET /documents/:hash?chainId=
+ * Every escrow a document hash was anchored to through DocumentsUploaded,
+ * oldest first, so a file can be traced back to its deal.
+ */
+app.get("/:hash", async (c) => {
+  const documentHash = parseBytes32(c.req.param("hash"));
+  if (!documentHash) return badRequest(c, "Invalid document hash");
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const rows = await db
+    .select()
+    .from(escrowDocument)
+    .innerJoin(
+      escrow,
+      and(
+        eq(escrow.chainId, escrowDocument.chainId),
+        eq(escrow.id, escrowDocument.escrowId),
+      ),
+    )
+    .where(
+      and(
+        eq(escrowDocument.documentHash, documentHash),
+        chainId !== undefined ? eq(escrowDocument.chainId, chainId) : undefined,
+      ),
+    )
+    .orderBy(asc(escrowDocument.timestamp), asc(escrowDocument.chainId));
+  if (rows.length === 0) return notFound(c, "Document not found");
+
+  return c.json({
+    documentHash,
+    anchors: rows.map((row) =>
+      serializeDocumentAnchor(row.escrow_document, row.escrow),
+    ),
+  } satisfies DocumentLookup);
+});
+
+export default app;
@@ -0,0 +1,160 @@
+import { db } from "ponder:api";
+import { escrow, escrowDocument, escrowEvent, escrowStatus } from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, desc, eq, or, sql } from "ponder";
+
+import {
+  serializeDocument,
+  serializeEscrow,
+  serializeEscrowFor,
+  serializeEvent,
+} from "./serializers";
+import {
+  badRequest,
+  decodeIdCursor,
+  encodeCursor,
+  notFound,
+  parseAddress,
+  parseBytes32,
+  parseChainId,
+  parseLimit,
+} from "./utils";
+import type { EscrowDetail, EscrowListItem, Page } from "./types";
+
+type EscrowStatus = (typeof escrowStatus.enumValues)[number];
+
+const app = new Hono();
+
+/**
+ * GET /escrows?address=&role=&status=&overdue=&chainId=&cursor=&limit=
+ * Escrows where `address` is buyer or seller, newest first.
+ */
+app.get("/", async (c) => {
+  const address = parseAddress(c.req.query("address"));
+  if (!address) return badRequest(c, "Invalid or missing address");
+
+  const role = c.req.query("role");
+  if (role !== undefined && role !== "buyer" && role !== "seller") {
+    return badRequest(c, "Invalid role, expected buyer or seller");
+  }
+
+  const status = c.req.query("status");
+  if (
+    status !== undefined &&
+    !escrowStatus.enumValues.includes(status as EscrowStatus)
+  ) {
+    return badRequest(c, "Invalid status");
+  }
+
+  const overdue = c.req.query("overdue");
+  if (overdue !== undefined && overdue !== "true" && overdue !== "false") {
+    return badRequest(c, "Invalid overdue, expected true or false");
+  }
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  if (limit === undefined) return badRequest(c, "Invalid limit");
+
+  const filters = [
+    role === "buyer"
+      ? eq(escrow.buyer, address)
+      : role === "seller"
+        ? eq(escrow.seller, address)
+        : or(eq(escrow.buyer, address), eq(escrow.seller, address)),
+    status !== undefined ? eq(escrow.status, status as EscrowStatus) : undefined,
+    overdue !== undefined ? eq(escrow.overdue, overdue === "true") : undefined,
+    chainId !== undefined ? eq(escrow.chainId, chainId) : undefined,
+  ];
+
+  const cursorParam = c.req.query("cursor");
+  if (cursorParam !== undefined) {
+    const cursor = decodeIdCursor(cursorParam);
+    if (!cursor) return badRequest(c, "Invalid cursor");
+    const [createdAt, cursorChainId, id] = cursor;
+    filters.push(
+      sql`(${escrow.createdAt}, ${escrow.chainId}, ${escrow.id}) < (${createdAt}, ${cursorChainId}, ${id})`,
+    );
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
+    .select()
+    .from(escrow)
+    .where(and(...filters))
+    .orderBy(desc(escrow.createdAt), desc(escrow.chainId), desc(escrow.id))
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return c.json({
+    items: page.map((row) => serializeEscrowFor(row, address)),
+    nextCursor:
+      rows.length > limit && last
+        ? encodeCursor([last.createdAt.toString(), last.chainId, last.id])
+        : null,
+  } satisfies Page<EscrowListItem>);
+});
+
+/**
+ * GET /escrows/:id?chainId=
+ * A single escrow with its documents and event timeline.
+ */
+app.get("/:id", async (c) => {
+  const id = parseBytes32(c.req.param("id"));
+  if (!id) return badRequest(c, "Invalid escrow id");
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const [row] = await db
+    .select()
+    .from(escrow)
+    .where(
+      and(
+        eq(escrow.id, id),
+        chainId !== undefined ? eq(escrow.chainId, chainId) : undefined,
+      ),
+    )
+    .limit(1);
+  if (!row) return notFound(c, "Escrow not found");
+
+  const [documents, events] = await Promise.all([
+    db
+      .select()
+      .from(escrowDocument)
+      .where(
+        and(
+          eq(escrowDocument.chainId, row.chainId),
+          eq(escrowDocument.escrowId, row.id),
+        ),
+      )
+      .orderBy(asc(escrowDocument.position)),
+    db
+      .select()
+      .from(escrowEvent)
+      .where(
+        and(
+          eq(escrowEvent.chainId, row.chainId),
+          eq(escrowEvent.escrowId, row.id),
+        ),
+      )
+      .orderBy(asc(escrowEvent.id)),
+  ]);
+
+  return c.json({
+    ...serializeEscrow(row),
+    documents: documents.map(serializeDocument),
+    events: events.map(serializeEvent),
+  } satisfies EscrowDetail);
+});
+
+export default app;
@@ -3,6 +3,17 @@ import schema from "ponder:schema";
 import { Hono } from "hono";
 import { client, graphql } from "ponder";
 
+import cashFlows from "./cash-flows";
+import counterparties from "./counterparties";
+import disputes from "./disputes";
+import documents from "./documents";
+import escrows from "./escrows";
+import nonces from "./nonces";
+import stream from "./stream";
+import tokens from "./tokens";
+import transfers from "./transfers";
+import volume from "./volume";
+
 const app = new Hono();
 
 app.use("/sql/*", client({ db, schema }));
@@ -10,4 +21,16 @@ app.use("/sql/*", client({ db, schema }));
 app.use("/", graphql({ db, schema }));
 app.use("/graphql", graphql({ db, schema }));
 
+// Registered before /escrows so "stream" is not taken for an escrow id
+app.route("/escrows/stream", stream);
+app.route("/escrows", escrows);
+app.route("/disputes", disputes);
+app.route("/documents", documents);
+app.route("/cash-flows", cashFlows);
+app.route("/nonces", nonces);
+app.route("/counterparties", counterparties);
+app.route("/tokens", tokens);
+app.route("/transfers", transfers);
+app.route("/volume", volume);
+
 export default app;
@@ -0,0 +1,37 @@
+import { db } from "ponder:api";
+import { metaNonce } from "ponder:schema";
+import { Hono } from "hono";
+import { and, eq } from "ponder";
+
+import { serializeNonce } from "./serializers";
+import { badRequest, parseAddress, parseChainId } from "./utils";
+
+const app = new Hono();
+
+/**
+ * GET /nonces/:address?chainId=
+ * The signer's current LiskEscrow meta-transaction nonce as of the last
+ * indexed block. Addresses that never used a *Meta function are at 0.
+ */
+app.get("/:address", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  if (!address) return badRequest(c, "Invalid address");
+
+  // Nonces are per deployment, so there is no sensible cross-chain answer
+  const chainId = parseChainId(c.req.query("chainId"));
+  if (chainId === undefined) return badRequest(c, "Invalid or missing chainId");
+
+  const [row] = await db
+    .select()
+    .from(metaNonce)
+    .where(and(eq(metaNonce.chainId, chainId), eq(metaNonce.user, address)))
+    .limit(1);
+
+  return c.json(
+    serializeNonce(
+      row ?? { chainId, user: address, nonce: 0n, updatedAt: null },
+    ),
+  );
+});
+
+export default app;
@@ -0,0 +1,357 @@
+import type {
+  dispute,
+  escrow,
+  escrowDocument,
+  escrowEvent,
+  metaNonce,
+  token,
+  tokenBalance,
+  tokenTransfer,
+  volumeDaily,
+} from "ponder:schema";
+import { type Address, formatUnits, parseUnits } from "viem";
+
+import { DEFAULT_DECIMALS } from "../tokens";
+import type {
+  CashFlow,
+  Counterparty,
+  Dispute,
+  DocumentAnchor,
+  Escrow,
+  EscrowDocument,
+  EscrowEvent,
+  EscrowListItem,
+  EscrowTransition,
+  MetaNonce,
+  TokenBalance,
+  TokenMetadata,
+  TokenTransfer,
+  VolumeBucket,
+} from "./types";
+
+// Row to response mapping for the REST API, typed against the shared models in
+// ./types. Token amounts are decimal strings because uint256 values overflow
+// JSON numbers; unix timestamps (seconds) and block numbers are plain numbers.
+
+type EscrowRow = typeof escrow.$inferSelect;
+type EscrowDocumentRow = typeof escrowDocument.$inferSelect;
+type EscrowEventRow = typeof escrowEvent.$inferSelect;
+type DisputeRow = typeof dispute.$inferSelect;
+type MetaNonceRow = typeof metaNonce.$inferSelect;
+type TokenRow = typeof token.$inferSelect;
+type TokenBalanceRow = typeof tokenBalance.$inferSelect;
+type TokenTransferRow = typeof tokenTransfer.$inferSelect;
+// volume_monthly has the same columns
+type VolumeRow = typeof volumeDaily.$inferSelect;
+
+// Escrow status after each event type, matching the indexing functions
+const statusAfter = {
+  CREATED: "CREATED",
+  FUNDED: "FUNDED",
+  DOCUMENT_UPLOADED: "DOCUMENTS_PENDING",
+  DELIVERY_CONFIRMED: "SETTLED",
+  PAYMENT_RELEASED: "SETTLED",
+  CANCELLED: "CANCELLED",
+  DISPUTED: "DISPUTED",
+} as const satisfies Record<EscrowEventRow["type"], EscrowRow["status"]>;
+
+function toNumber(value: bigint): number;
+function toNumber(value: bigint | null): number | null;
+function toNumber(value: bigint | null) {
+  return value === null ? null : Number(value);
+}
+
+export function serializeEscrow(row: EscrowRow): Escrow {
+  return {
+    chainId: row.chainId,
+    id: row.id,
+    buyer: row.buyer,
+    seller: row.seller,
+    amount: row.amount.toString(),
+    token: row.token,
+    deliveryDeadline: toNumber(row.deliveryDeadline),
+    status: row.status,
+    overdue: row.overdue,
+    documentCount: row.documentCount,
+    releasedTo: row.releasedTo,
+    createdAt: toNumber(row.createdAt),
+    fundedAt: toNumber(row.fundedAt),
+    settledAt: toNumber(row.settledAt),
+    updatedAt: toNumber(row.updatedAt),
+  };
+}
+
+/** An escrow as seen by one of its parties. */
+export function serializeEscrowFor(
+  row: EscrowRow,
+  address: Address,
+): EscrowListItem {
+  const isBuyer = row.buyer === address;
+  return {
+    ...serializeEscrow(row),
+    role: isBuyer ? ("buyer" as const) : ("seller" as const),
+    counterparty: isBuyer ? row.seller : row.buyer,
+  };
+}
+
+export function serializeDocument(row: EscrowDocumentRow): EscrowDocument {
+  return {
+    position: row.position,
+    documentHash: row.documentHash,
+    uploader: row.uploader,
+    submitter: row.submitter,
+    relayed: row.relayed,
+    timestamp: toNumber(row.timestamp),
+    blockNumber: toNumber(row.blockNumber),
+    transactionHash: row.transactionHash,
+  };
+}
+
+/** Where a document hash was anchored, with the escrow it belongs to. */
+export function serializeDocumentAnchor(
+  row: EscrowDocumentRow,
+  escrowRow: EscrowRow,
+): DocumentAnchor {
+  return {
+    chainId: row.chainId,
+    escrowId: row.escrowId,
+    ...serializeDocument(row),
+    escrow: {
+      buyer: escrowRow.buyer,
+      seller: escrowRow.seller,
+      amount: escrowRow.amount.toString(),
+      token: escrowRow.token,
+      status: escrowRow.status,
+      createdAt: toNumber(escrowRow.createdAt),
+    },
+  };
+}
+
+export function serializeEvent(row: EscrowEventRow): EscrowEvent {
+  return {
+    id: row.id,
+    type: row.type,
+    actor: row.actor,
+    amount: row.amount === null ? null : row.amount.toString(),
+    timestamp: toNumber(row.timestamp),
+    blockNumber: toNumber(row.blockNumber),
+    logIndex: row.logIndex,
+    transactionHash: row.transactionHash,
+    sender: row.sender,
+    relayed: row.relayed,
+    gasUsed: row.gasUsed.toString(),
+  };
+}
+
+/** A live status change pushed over `/escrows/stream`. */
+export function serializeTransition(
+  row: EscrowEventRow,
+  parties: Pick<EscrowRow, "buyer" | "seller">,
+): EscrowTransition {
+  return {
+    chainId: row.chainId,
+    escrowId: row.escrowId,
+    type: row.type,
+    status: statusAfter[row.type],
+    actor: row.actor,
+    buyer: parties.buyer,
+    seller: parties.seller,
+    timestamp: toNumber(row.timestamp),
+    transactionHash: row.transactionHash,
+  };
+}
+
+export function serializeOverdue(row: EscrowRow): EscrowTransition {
+  return {
+    chainId: row.chainId,
+    escrowId: row.id,
+    type: "OVERDUE",
+    status: row.status,
+    actor: null,
+    buyer: row.buyer,
+    seller: row.seller,
+    timestamp: toNumber(row.deliveryDeadline),
+    transactionHash: null,
+  };
+}
+
+export function serializeVolume(row: VolumeRow): VolumeBucket {
+  return {
+    chainId: row.chainId,
+    token: row.token,
+    periodStart: toNumber(row.periodStart),
+    createdCount: row.createdCount,
+    fundedCount: row.fundedCount,
+    fundedVolume: row.fundedVolume.toString(),
+    releasedCount: row.releasedCount,
+    releasedVolume: row.releasedVolume.toString(),
+    refundedCount: row.refundedCount,
+    refundedVolume: row.refundedVolume.toString(),
+  };
+}
+
+export function serializeDispute(row: DisputeRow): Dispute {
+  return {
+    chainId: row.chainId,
+    escrowId: row.escrowId,
+    buyer: row.buyer,
+    seller: row.seller,
+    amount: row.amount.toString(),
+    token: row.token,
+    initiator: row.initiator,
+    initiatorRole:
+      row.initiator === row.buyer ? ("buyer" as const) : ("seller" as const),
+    reason: row.reason,
+    status: row.resolvedAt === null ? ("OPEN" as const) : ("RESOLVED" as const),
+    initiatedAt: toNumber(row.initiatedAt),
+    transactionHash: row.transactionHash,
+    resolvedAt: toNumber(row.resolvedAt),
+    resolutionTime: toNumber(row.resolutionTime),
+    refundedBuyer: row.refundedBuyer,
+    resolutionTransactionHash: row.resolutionTransactionHash,
+  };
+}
+
+/**
+ * One cash movement of `event.actor`: a FUNDED event is money paid into escrow
+ * by the buyer, a PAYMENT_RELEASED event is money received by the recipient.
+ * Without token metadata the amount is formatted with DEFAULT_DECIMALS.
+ */
+export function serializeCashFlow(
+  event: EscrowEventRow,
+  parties: Pick<EscrowRow, "buyer" | "seller" | "token">,
+  tokenRow: TokenRow | null,
+): CashFlow {
+  const actor = event.actor!;
+  const amount = event.amount ?? 0n;
+  const decimals = tokenRow?.decimals ?? DEFAULT_DECIMALS;
+  const type =
+    event.type === "FUNDED"
+      ? ("FUNDED" as const)
+      : actor === parties.seller
+        ? ("RELEASED" as const)
+        : ("REFUNDED" as const);
+  return {
+    date: new Date(Number(event.timestamp) * 1000).toISOString(),
+    timestamp: toNumber(event.timestamp),
+    type,
+    direction: type === "FUNDED" ? ("OUT" as const) : ("IN" as const),
+    address: actor,
+    counterparty: actor === parties.buyer ? parties.seller : parties.buyer,
+    escrowId: event.escrowId,
+    token: parties.token,
+    symbol: tokenRow?.symbol ?? null,
+    decimals,
+    amount: formatUnits(amount, decimals),
+    rawAmount: amount.toString(),
+    chainId: event.chainId,
+    blockNumber: toNumber(event.blockNumber),
+    transactionHash: event.transactionHash,
+  };
+}
+
+/** Escrows between an address and one counterparty on one chain. */
+export type CounterpartyTotals = {
+  chainId: number;
+  counterparty: Address;
+  escrowCount: number;
+  settledCount: number;
+  disputeCount: number;
+  lastActivityAt: bigint;
+  // Released to the seller, per token
+  volumes: {
+    token: Address;
+    symbol: string | null;
+    decimals: number;
+    settledVolume: bigint;
+  }[];
+};
+
+const NORMALIZED_DECIMALS = 18;
+
+/** Settled volume across tokens, scaled to 18 decimals. */
+export function settledVolume(totals: CounterpartyTotals) {
+  return totals.volumes.reduce(
+    (sum, volume) =>
+      sum +
+      parseUnits(
+        formatUnits(volume.settledVolume, volume.decimals),
+        NORMALIZED_DECIMALS,
+      ),
+    0n,
+  );
+}
+
+/**
+ * `settledVolume` sums every token in its own units, which is meaningful for
+ * the stablecoins escrows settle in; `volumes` keeps the per-token raw amounts.
+ */
+export function serializeCounterparty(
+  totals: CounterpartyTotals,
+): Counterparty {
+  return {
+    chainId: totals.chainId,
+    address: totals.counterparty,
+    escrowCount: totals.escrowCount,
+    settledCount: totals.settledCount,
+    settledVolume: formatUnits(settledVolume(totals), NORMALIZED_DECIMALS),
+    disputeCount: totals.disputeCount,
+    lastActivityAt: toNumber(totals.lastActivityAt),
+    volumes: totals.volumes.map((volume) => ({
+      token: volume.token,
+      symbol: volume.symbol,
+      decimals: volume.decimals,
+      settledVolume: volume.settledVolume.toString(),
+    })),
+  };
+}
+
+export function serializeTransfer(row: TokenTransferRow): TokenTransfer {
+  return {
+    id: row.id,
+    chainId: row.chainId,
+    token: row.token,
+    account: row.account,
+    counterparty: row.counterparty,
+    direction: row.direction,
+    amount: row.amount.toString(),
+    balanceAfter: row.balanceAfter.toString(),
+    escrowTransfer: row.escrowTransfer,
+    timestamp: toNumber(row.timestamp),
+    blockNumber: toNumber(row.blockNumber),
+    logIndex: row.logIndex,
+    transactionHash: row.transactionHash,
+  };
+}
+
+export function serializeBalance(row: TokenBalanceRow): TokenBalance {
+  return {
+    chainId: row.chainId,
+    token: row.token,
+    balance: row.balance.toString(),
+    updatedAt: toNumber(row.updatedAt),
+  };
+}
+
+export function serializeToken(row: TokenRow): TokenMetadata {
+  return {
+    chainId: row.chainId,
+    address: row.address,
+    symbol: row.symbol,
+    name: row.name,
+    decimals: row.decimals,
+    firstSeenAt: toNumber(row.firstSeenAt),
+  };
+}
+
+// updatedAt is null for addresses without a row, i.e. still at nonce 0
+export function serializeNonce(
+  row: Omit<MetaNonceRow, "updatedAt"> & { updatedAt: bigint | null },
+): MetaNonce {
+  return {
+    chainId: row.chainId,
+    address: row.user,
+    nonce: row.nonce.toString(),
+    updatedAt: toNumber(row.updatedAt),
+  };
+}
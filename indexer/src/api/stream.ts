@@ -0,0 +1,230 @@
+import { db } from "ponder:api";
+import { escrow, escrowEvent } from "ponder:schema";
+import { Hono } from "hono";
+import { type SSEMessage, streamSSE } from "hono/streaming";
+import { and, asc, desc, eq, gt, lte } from "ponder";
+
+import { serializeOverdue, serializeTransition } from "./serializers";
+import type { EscrowTransition } from "./types";
+import { badRequest, parseAddress, parseBytes32, parseChainId } from "./utils";
+
+const POLL_INTERVAL_MS = 1_000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+type Subscriber = {
+  address?: string;
+  escrowId?: string;
+  chainId?: number;
+  // Last escrow_event id sent; undefined until the poller starts the
+  // subscriber at the newest one
+  lastEventId?: string;
+  lastWrite: number;
+  write: (message: SSEMessage) => void;
+};
+
+const subscribers = new Set<Subscriber>();
+
+// State of the poller shared by all connections, which runs while any are
+// open: the newest escrow_event id read, and the escrows flagged overdue at
+// the last poll, keyed by chainId and id
+let cursor = "";
+let overdue = new Set<string>();
+let polling = false;
+
+function matches(subscriber: Subscriber, transition: EscrowTransition) {
+  return (
+    (subscriber.address === undefined ||
+      transition.buyer === subscriber.address ||
+      transition.seller === subscriber.address) &&
+    (subscriber.escrowId === undefined ||
+      transition.escrowId === subscriber.escrowId) &&
+    (subscriber.chainId === undefined ||
+      transition.chainId === subscriber.chainId)
+  );
+}
+
+function eventsQuery() {
+  return db
+    .select({
+      event: escrowEvent,
+      buyer: escrow.buyer,
+      seller: escrow.seller,
+    })
+    .from(escrowEvent)
+    .innerJoin(
+      escrow,
+      and(
+        eq(escrow.chainId, escrowEvent.chainId),
+        eq(escrow.id, escrowEvent.escrowId),
+      ),
+    );
+}
+
+async function overdueEscrows() {
+  const rows = await db.select().from(escrow).where(eq(escrow.overdue, true));
+  return new Map(rows.map((row) => [`${row.chainId}:${row.id}`, row]));
+}
+
+function send(
+  subscriber: Subscriber,
+  transition: EscrowTransition,
+  id?: string,
+) {
+  subscriber.write({
+    id,
+    event: "transition",
+    data: JSON.stringify(transition),
+  });
+  if (id !== undefined) subscriber.lastEventId = id;
+}
+
+async function poll() {
+  const [latest] = await eventsQuery().orderBy(desc(escrowEvent.id)).limit(1);
+  const since = cursor;
+  cursor = latest?.event.id ?? "";
+
+  for (const subscriber of subscribers) {
+    // New connections without Last-Event-ID start from here
+    subscriber.lastEventId ??= since;
+
+    // Reconnections catch up on what they missed before joining the stream
+    if (subscriber.lastEventId < since) {
+      const missed = await eventsQuery()
+        .where(
+          and(
+            gt(escrowEvent.id, subscriber.lastEventId),
+            lte(escrowEvent.id, since),
+          ),
+        )
+        .orderBy(asc(escrowEvent.id));
+      for (const { event, buyer, seller } of missed) {
+        const transition = serializeTransition(event, { buyer, seller });
+        if (matches(subscriber, transition))
+          send(subscriber, transition, event.id);
+      }
+      subscriber.lastEventId = since;
+    }
+  }
+
+  const rows = await eventsQuery()
+    .where(and(gt(escrowEvent.id, since), lte(escrowEvent.id, cursor)))
+    .orderBy(asc(escrowEvent.id));
+  for (const { event, buyer, seller } of rows) {
+    const transition = serializeTransition(event, { buyer, seller });
+    for (const subscriber of subscribers) {
+      // Connections that joined during this poll start with the next one
+      if (subscriber.lastEventId === undefined) continue;
+      if (
+        event.id > subscriber.lastEventId &&
+        matches(subscriber, transition)
+      ) {
+        send(subscriber, transition, event.id);
+      }
+    }
+  }
+
+  // OverdueCheck sets the flag with a raw update and writes no escrow_event,
+  // so newly flagged escrows are found by comparing with the last poll
+  const flagged = await overdueEscrows();
+  for (const [key, row] of flagged) {
+    if (overdue.has(key)) continue;
+    const transition = serializeOverdue(row);
+    for (const subscriber of subscribers) {
+      if (matches(subscriber, transition)) send(subscriber, transition);
+    }
+  }
+  overdue = new Set(flagged.keys());
+}
+
+/**
+ * One poller serves every open connection, so the database is queried once
+ * per interval however many clients are listening. The first read only
+ * records where the stream stands, so connections are sent what happens
+ * after it.
+ */
+async function startPolling() {
+  polling = true;
+  try {
+    const [latest] = await eventsQuery().orderBy(desc(escrowEvent.id)).limit(1);
+    cursor = latest?.event.id ?? "";
+    overdue = new Set((await overdueEscrows()).keys());
+
+    while (subscribers.size > 0) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      try {
+        await poll();
+      } catch (error) {
+        console.warn("Escrow stream poll failed:", error);
+      }
+    }
+  } finally {
+    polling = false;
+  }
+}
+
+const app = new Hono();
+
+/**
+ * GET /escrows/stream?address=&escrowId=&chainId=
+ * Server-Sent Events for escrow transitions as the indexer processes them.
+ * Each `transition` event carries the escrow_event id, so reconnecting
+ * clients resume from `Last-Event-ID` instead of missing transitions.
+ */
+app.get("/", async (c) => {
+  const addressParam = c.req.query("address");
+  const escrowIdParam = c.req.query("escrowId");
+  const chainIdParam = c.req.query("chainId");
+
+  const address = parseAddress(addressParam);
+  const escrowId = parseBytes32(escrowIdParam);
+  const chainId = parseChainId(chainIdParam);
+
+  if (!addressParam && !escrowIdParam) {
+    return badRequest(c, "Either address or escrowId is required");
+  }
+  if (addressParam && !address) return badRequest(c, "Invalid address");
+  if (escrowIdParam && !escrowId) return badRequest(c, "Invalid escrow id");
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  return streamSSE(c, async (stream) => {
+    // Writes are chained so transitions arrive in the order they were sent;
+    // a failed one means the client is gone
+    let writing = Promise.resolve();
+    const subscriber: Subscriber = {
+      address,
+      escrowId,
+      chainId,
+      lastEventId: c.req.header("Last-Event-ID"),
+      lastWrite: Date.now(),
+      write: (message) => {
+        subscriber.lastWrite = Date.now();
+        writing = writing
+          .then(() => stream.writeSSE(message))
+          .catch(() => stream.abort());
+      },
+    };
+
+    subscribers.add(subscriber);
+    stream.onAbort(() => {
+      subscribers.delete(subscriber);
+    });
+    if (!polling) void startPolling();
+
+    try {
+      while (!stream.aborted) {
+        // Keep idle connections open through proxies
+        if (Date.now() - subscriber.lastWrite >= HEARTBEAT_INTERVAL_MS) {
+          subscriber.write({ event: "heartbeat", data: "" });
+        }
+        await stream.sleep(POLL_INTERVAL_MS);
+      }
+    } finally {
+      subscribers.delete(subscriber);
+      await writing;
+    }
+  });
+});
+
+export default app;
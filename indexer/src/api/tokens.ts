@@ -0,0 +1,62 @@
+import { db } from "ponder:api";
+import { token } from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, eq } from "ponder";
+
+import { serializeToken } from "./serializers";
+import { badRequest, notFound, parseAddress, parseChainId } from "./utils";
+import type { Items, TokenMetadata } from "./types";
+
+const app = new Hono();
+
+/**
+ * GET /tokens?chainId=
+ * Every token used by an escrow, so clients can format raw amounts.
+ */
+app.get("/", async (c) => {
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const rows = await db
+    .select()
+    .from(token)
+    .where(chainId !== undefined ? eq(token.chainId, chainId) : undefined)
+    .orderBy(asc(token.chainId), asc(token.firstSeenAt));
+
+  return c.json({
+    items: rows.map(serializeToken),
+  } satisfies Items<TokenMetadata>);
+});
+
+/**
+ * GET /tokens/:address?chainId=
+ */
+app.get("/:address", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  if (!address) return badRequest(c, "Invalid address");
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const [row] = await db
+    .select()
+    .from(token)
+    .where(
+      and(
+        eq(token.address, address),
+        chainId !== undefined ? eq(token.chainId, chainId) : undefined,
+      ),
+    )
+    .limit(1);
+  if (!row) return notFound(c, "Token not found");
+
+  return c.json(serializeToken(row));
+});
+
+export default app;
@@ -0,0 +1,134 @@
+import { db } from "ponder:api";
+import { tokenBalance, tokenTransfer } from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, desc, eq, gte, lte, sql } from "ponder";
+
+import { serializeBalance, serializeTransfer } from "./serializers";
+import {
+  badRequest,
+  decodeTransferCursor,
+  encodeCursor,
+  parseAddress,
+  parseChainId,
+  parseLimit,
+  parseTimestamp,
+} from "./utils";
+import type { Items, Page, TokenBalance, TokenTransfer } from "./types";
+
+const app = new Hono();
+
+/**
+ * GET /transfers?address=&token=&escrow=true|false&from=&to=&chainId=&cursor=&limit=
+ * Token transfers in and out of a buyer or seller, newest first, each with
+ * the balance right after it.
+ */
+app.get("/", async (c) => {
+  const address = parseAddress(c.req.query("address"));
+  if (!address) return badRequest(c, "Invalid or missing address");
+
+  const tokenParam = c.req.query("token");
+  const token = parseAddress(tokenParam);
+  if (tokenParam !== undefined && !token) return badRequest(c, "Invalid token");
+
+  const escrowParam = c.req.query("escrow");
+  if (
+    escrowParam !== undefined &&
+    escrowParam !== "true" &&
+    escrowParam !== "false"
+  ) {
+    return badRequest(c, "Invalid escrow, expected true or false");
+  }
+
+  const fromParam = c.req.query("from");
+  const from = parseTimestamp(fromParam);
+  if (fromParam !== undefined && from === undefined) {
+    return badRequest(c, "Invalid from");
+  }
+
+  const toParam = c.req.query("to");
+  const to = parseTimestamp(toParam);
+  if (toParam !== undefined && to === undefined) {
+    return badRequest(c, "Invalid to");
+  }
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  if (limit === undefined) return badRequest(c, "Invalid limit");
+
+  const filters = [
+    eq(tokenTransfer.account, address),
+    token ? eq(tokenTransfer.token, token) : undefined,
+    escrowParam !== undefined
+      ? eq(tokenTransfer.escrowTransfer, escrowParam === "true")
+      : undefined,
+    from !== undefined ? gte(tokenTransfer.timestamp, from) : undefined,
+    to !== undefined ? lte(tokenTransfer.timestamp, to) : undefined,
+    chainId !== undefined ? eq(tokenTransfer.chainId, chainId) : undefined,
+  ];
+
+  const cursorParam = c.req.query("cursor");
+  if (cursorParam !== undefined) {
+    const cursor = decodeTransferCursor(cursorParam);
+    if (!cursor) return badRequest(c, "Invalid cursor");
+    const [timestamp, id] = cursor;
+    filters.push(
+      sql`(${tokenTransfer.timestamp}, ${tokenTransfer.id}) < (${timestamp}, ${id})`,
+    );
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
+    .select()
+    .from(tokenTransfer)
+    .where(and(...filters))
+    .orderBy(desc(tokenTransfer.timestamp), desc(tokenTransfer.id))
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return c.json({
+    items: page.map(serializeTransfer),
+    nextCursor:
+      rows.length > limit && last
+        ? encodeCursor([last.timestamp.toString(), last.id])
+        : null,
+  } satisfies Page<TokenTransfer>);
+});
+
+/**
+ * GET /transfers/balances?address=&chainId=
+ * Current balance of an address in every tracked token it has moved.
+ */
+app.get("/balances", async (c) => {
+  const address = parseAddress(c.req.query("address"));
+  if (!address) return badRequest(c, "Invalid or missing address");
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const rows = await db
+    .select()
+    .from(tokenBalance)
+    .where(
+      and(
+        eq(tokenBalance.account, address),
+        chainId !== undefined ? eq(tokenBalance.chainId, chainId) : undefined,
+      ),
+    )
+    .orderBy(asc(tokenBalance.chainId), asc(tokenBalance.token));
+
+  return c.json({
+    items: rows.map(serializeBalance),
+  } satisfies Items<TokenBalance>);
+});
+
+export default app;
@@ -0,0 +1,266 @@
+// Models returned by the REST API, shared with the frontend through its
+// `@indexer/types` path alias. The serializers and routes are typed against
+// these, so a change to a response shape fails the type-check on both sides.
+//
+// Keep this file free of imports and runtime code: the frontend only ever
+// imports it as types and compiles it with its own, older target.
+
+type Hex = `0x${string}`;
+
+/**
+ * Decimals assumed for a token without registered metadata: ERC-20 leaves
+ * decimals() optional and 18 is the standard's own default. A literal type,
+ * so the indexer and frontend constants are checked against it without a
+ * runtime import.
+ */
+export type DefaultTokenDecimals = 18;
+
+// Mirrors the escrow_status enum in ponder.schema.ts
+export type EscrowStatus =
+  | "CREATED"
+  | "FUNDED"
+  | "DOCUMENTS_PENDING"
+  | "SETTLED"
+  | "CANCELLED"
+  | "DISPUTED";
+
+// Mirrors the escrow_event_type enum in ponder.schema.ts
+export type EscrowEventType =
+  | "CREATED"
+  | "FUNDED"
+  | "DOCUMENT_UPLOADED"
+  | "DELIVERY_CONFIRMED"
+  | "PAYMENT_RELEASED"
+  | "CANCELLED"
+  | "DISPUTED";
+
+export type Page<T> = {
+  items: T[];
+  // Pass back as `cursor` for the next page; null on the last one
+  nextCursor: string | null;
+};
+
+export type Escrow = {
+  chainId: number;
+  id: Hex;
+  buyer: Hex;
+  seller: Hex;
+  // Raw token amount
+  amount: string;
+  token: Hex;
+  deliveryDeadline: number;
+  status: EscrowStatus;
+  overdue: boolean;
+  documentCount: number;
+  // The seller, or the buyer on a refund
+  releasedTo: Hex | null;
+  createdAt: number;
+  fundedAt: number | null;
+  settledAt: number | null;
+  updatedAt: number;
+};
+
+/** An escrow in GET /escrows, as seen by the `address` queried for. */
+export type EscrowListItem = Escrow & {
+  role: "buyer" | "seller";
+  counterparty: Hex;
+};
+
+export type EscrowEvent = {
+  id: string;
+  type: EscrowEventType;
+  actor: Hex | null;
+  amount: string | null;
+  timestamp: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: Hex;
+  // Transaction sender: the party, or the relayer that sponsored a *Meta call
+  sender: Hex;
+  relayed: boolean;
+  gasUsed: string;
+};
+
+export type EscrowDocument = {
+  position: number;
+  documentHash: Hex;
+  uploader: Hex;
+  // Differs from uploader when relayed
+  submitter: Hex;
+  relayed: boolean;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: Hex;
+};
+
+export type EscrowDetail = Escrow & {
+  documents: EscrowDocument[];
+  events: EscrowEvent[];
+};
+
+/** One escrow a document hash was anchored to. */
+export type DocumentAnchor = EscrowDocument & {
+  chainId: number;
+  escrowId: Hex;
+  escrow: Pick<
+    Escrow,
+    "buyer" | "seller" | "amount" | "token" | "status" | "createdAt"
+  >;
+};
+
+export type DocumentLookup = {
+  documentHash: Hex;
+  anchors: DocumentAnchor[];
+};
+
+/**
+ * Payload of a `transition` event on GET /escrows/stream. OVERDUE is sent
+ * when the indexer flags an escrow whose deadline passed; no transaction
+ * causes it, so it has no escrow_event row and is not replayed on reconnect.
+ */
+export type EscrowTransition = {
+  chainId: number;
+  escrowId: Hex;
+  type: EscrowEventType | "OVERDUE";
+  status: EscrowStatus;
+  actor: Hex | null;
+  buyer: Hex;
+  seller: Hex;
+  // The delivery deadline for OVERDUE
+  timestamp: number;
+  // Null for OVERDUE
+  transactionHash: Hex | null;
+};
+
+export type Dispute = {
+  chainId: number;
+  escrowId: Hex;
+  buyer: Hex;
+  seller: Hex;
+  amount: string;
+  token: Hex;
+  initiator: Hex;
+  initiatorRole: "buyer" | "seller";
+  reason: string;
+  status: "OPEN" | "RESOLVED";
+  initiatedAt: number;
+  transactionHash: Hex;
+  resolvedAt: number | null;
+  // Seconds from initiation to resolution
+  resolutionTime: number | null;
+  refundedBuyer: boolean | null;
+  resolutionTransactionHash: Hex | null;
+};
+
+export type DisputeDetail = Dispute & { events: EscrowEvent[] };
+
+export type VolumeGranularity = "day" | "month";
+
+/** One daily or monthly bucket; volumes are raw token amounts. */
+export type VolumeBucket = {
+  chainId: number;
+  token: Hex;
+  periodStart: number;
+  createdCount: number;
+  fundedCount: number;
+  fundedVolume: string;
+  releasedCount: number;
+  releasedVolume: string;
+  refundedCount: number;
+  refundedVolume: string;
+};
+
+export type VolumeSeries = {
+  granularity: VolumeGranularity;
+  items: VolumeBucket[];
+};
+
+export type CounterpartySort = "volume" | "escrows" | "disputes" | "recent";
+
+export type Counterparty = {
+  chainId: number;
+  address: Hex;
+  escrowCount: number;
+  settledCount: number;
+  // Decimal string summed across tokens in their own units
+  settledVolume: string;
+  disputeCount: number;
+  lastActivityAt: number;
+  volumes: {
+    token: Hex;
+    symbol: string | null;
+    decimals: number;
+    // Raw token amount
+    settledVolume: string;
+  }[];
+};
+
+export type CashFlowFormat = "json" | "csv";
+
+/** One cash movement from the point of view of `address`. */
+export type CashFlow = {
+  // ISO 8601
+  date: string;
+  timestamp: number;
+  type: "FUNDED" | "RELEASED" | "REFUNDED";
+  direction: "IN" | "OUT";
+  address: Hex;
+  counterparty: Hex;
+  escrowId: Hex;
+  token: Hex;
+  symbol: string | null;
+  decimals: number;
+  // Decimal string already scaled by the token's decimals
+  amount: string;
+  rawAmount: string;
+  chainId: number;
+  blockNumber: number;
+  transactionHash: Hex;
+};
+
+/** ERC-20 metadata read the first time an escrow used the token. */
+export type TokenMetadata = {
+  chainId: number;
+  address: Hex;
+  // Null when the token does not implement the optional getter
+  symbol: string | null;
+  name: string | null;
+  decimals: number;
+  firstSeenAt: number;
+};
+
+export type TokenTransfer = {
+  id: string;
+  chainId: number;
+  token: Hex;
+  account: Hex;
+  counterparty: Hex;
+  direction: "IN" | "OUT";
+  amount: string;
+  balanceAfter: string;
+  // The counterparty is the LiskEscrow contract
+  escrowTransfer: boolean;
+  timestamp: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: Hex;
+};
+
+export type TokenBalance = {
+  chainId: number;
+  token: Hex;
+  balance: string;
+  updatedAt: number;
+};
+
+export type MetaNonce = {
+  chainId: number;
+  address: Hex;
+  nonce: string;
+  // Null while the address is still at nonce 0
+  updatedAt: number | null;
+};
+
+export type Items<T> = { items: T[] };
+
+export type ApiError = { error: string };
@@ -0,0 +1,97 @@
+import type { Context } from "hono";
+import { type Address, type Hex, isAddress, isHex } from "viem";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/** Returns the lowercased address, matching how hex columns are stored. */
+export function parseAddress(value: string | undefined): Address | undefined {
+  if (!value || !isAddress(value, { strict: false })) return undefined;
+  return value.toLowerCase() as Address;
+}
+
+/** Returns a lowercased 32-byte hex value such as an escrow id. */
+export function parseBytes32(value: string | undefined): Hex | undefined {
+  if (!value || !isHex(value) || value.length !== 66) return undefined;
+  return value.toLowerCase() as Hex;
+}
+
+export function parseChainId(value: string | undefined): number | undefined {
+  if (value === undefined || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+}
+
+/** Unix timestamp in seconds. */
+export function parseTimestamp(value: string | undefined): bigint | undefined {
+  if (value === undefined || !/^\d+$/.test(value)) return undefined;
+  return BigInt(value);
+}
+
+export function parseLimit(value: string | undefined): number | undefined {
+  if (value === undefined) return DEFAULT_PAGE_SIZE;
+  if (!/^\d+$/.test(value)) return undefined;
+  const limit = Number(value);
+  if (limit < 1 || limit > MAX_PAGE_SIZE) return undefined;
+  return limit;
+}
+
+/** Cursors are opaque to clients: base64url-encoded JSON of the sort key. */
+export function encodeCursor(key: (string | number)[]): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): unknown[] | undefined {
+  try {
+    const key: unknown = JSON.parse(
+      Buffer.from(cursor, "base64url").toString(),
+    );
+    return Array.isArray(key) ? (key as unknown[]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Cursor values end up in row comparisons, so anything that does not match
+// the column types is rejected here rather than failing in the query
+const isDecimal = (value: unknown): value is string =>
+  typeof value === "string" && /^\d+$/.test(value);
+
+/**
+ * Key of a list sorted by (bigint time column, chainId, bytes32 id), such as
+ * escrows by createdAt or disputes by initiatedAt.
+ */
+export function decodeIdCursor(
+  cursor: string,
+): [time: string, chainId: number, id: Hex] | undefined {
+  const key = decodeCursor(cursor);
+  if (key?.length !== 3) return undefined;
+  const [time, chainId, id] = key;
+  if (!isDecimal(time)) return undefined;
+  if (typeof chainId !== "number" || !Number.isSafeInteger(chainId)) {
+    return undefined;
+  }
+  const escrowId = typeof id === "string" ? parseBytes32(id) : undefined;
+  if (!escrowId) return undefined;
+  return [time, chainId, escrowId];
+}
+
+/** Key of the transfer list, sorted by (timestamp, transfer id). */
+export function decodeTransferCursor(
+  cursor: string,
+): [timestamp: string, id: string] | undefined {
+  const key = decodeCursor(cursor);
+  if (key?.length !== 2) return undefined;
+  const [timestamp, id] = key;
+  if (!isDecimal(timestamp)) return undefined;
+  // Event checkpoint plus direction, as written by the transfer handler
+  if (typeof id !== "string" || !/^\d+-(IN|OUT)$/.test(id)) return undefined;
+  return [timestamp, id];
+}
+
+export function badRequest(c: Context, error: string) {
+  return c.json({ error }, 400);
+}
+
+export function notFound(c: Context, error: string) {
+  return c.json({ error }, 404);
+}
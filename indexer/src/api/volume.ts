@@ -0,0 +1,76 @@
+import { db } from "ponder:api";
+import { volumeDaily, volumeMonthly } from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, eq, gte, lte } from "ponder";
+
+import { serializeVolume } from "./serializers";
+import {
+  badRequest,
+  parseAddress,
+  parseChainId,
+  parseTimestamp,
+} from "./utils";
+import type { VolumeSeries } from "./types";
+
+const tables = { day: volumeDaily, month: volumeMonthly } as const;
+
+const app = new Hono();
+
+/**
+ * GET /volume?address=&granularity=day|month&from=&to=&token=&chainId=
+ * Funded, released and refunded volume for an address, one bucket per token
+ * and period, oldest first. Periods without activity are omitted.
+ */
+app.get("/", async (c) => {
+  const address = parseAddress(c.req.query("address"));
+  if (!address) return badRequest(c, "Invalid or missing address");
+
+  const granularity = c.req.query("granularity") ?? "day";
+  if (granularity !== "day" && granularity !== "month") {
+    return badRequest(c, "Invalid granularity, expected day or month");
+  }
+  const table = tables[granularity];
+
+  const fromParam = c.req.query("from");
+  const from = parseTimestamp(fromParam);
+  if (fromParam !== undefined && from === undefined) {
+    return badRequest(c, "Invalid from");
+  }
+
+  const toParam = c.req.query("to");
+  const to = parseTimestamp(toParam);
+  if (toParam !== undefined && to === undefined) {
+    return badRequest(c, "Invalid to");
+  }
+
+  const tokenParam = c.req.query("token");
+  const token = parseAddress(tokenParam);
+  if (tokenParam !== undefined && !token) return badRequest(c, "Invalid token");
+
+  const chainIdParam = c.req.query("chainId");
+  const chainId = parseChainId(chainIdParam);
+  if (chainIdParam !== undefined && chainId === undefined) {
+    return badRequest(c, "Invalid chainId");
+  }
+
+  const rows = await db
+    .select()
+    .from(table)
+    .where(
+      and(
+        eq(table.address, address),
+        from !== undefined ? gte(table.periodStart, from) : undefined,
+        to !== undefined ? lte(table.periodStart, to) : undefined,
+        token ? eq(table.token, token) : undefined,
+        chainId !== undefined ? eq(table.chainId, chainId) : undefined,
+      ),
+    )
+    .orderBy(asc(table.periodStart), asc(table.chainId), asc(table.token));
+
+  return c.json({
+    granularity,
+    items: rows.map(serializeVolume),
+  } satisfies VolumeSeries);
+});
+
+export default app;
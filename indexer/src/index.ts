@@ -1 +1,311 @@
-import { ponder } from "ponder:registry";
+import { type Context, ponder } from "ponder:registry";
+import {
+  dispute,
+  escrow,
+  escrowDocument,
+  escrowEvent,
+  party,
+} from "ponder:schema";
+import { and, eq, inArray, lt } from "ponder";
+import { type Address, type Hex, decodeFunctionData } from "viem";
+
+import { EscrowRelayerAbi } from "../abis/EscrowRelayerAbi";
+import { ensureToken, openBalances } from "./tokens";
+import { recordVolume } from "./volume";
+
+type EscrowLogEvent = {
+  block: { timestamp: bigint; number: bigint };
+  log: { logIndex: number };
+  transaction: { hash: Hex; from: Address; to: Address | null };
+  transactionReceipt: { gasUsed: bigint };
+};
+
+/**
+ * Where and how an escrow event was submitted. Events look the same whether
+ * LiskEscrow was called directly or through EscrowRelayer, so the transaction
+ * target tells them apart.
+ */
+function transactionFields(event: EscrowLogEvent, context: Context) {
+  // Undefined on chains without a configured EscrowRelayer
+  const relayerAddress = context.contracts.EscrowRelayer?.address;
+  return {
+    timestamp: event.block.timestamp,
+    blockNumber: event.block.number,
+    logIndex: event.log.logIndex,
+    transactionHash: event.transaction.hash,
+    sender: event.transaction.from,
+    relayed:
+      relayerAddress !== undefined &&
+      event.transaction.to?.toLowerCase() === relayerAddress.toLowerCase(),
+    gasUsed: event.transactionReceipt.gasUsed,
+  };
+}
+
+ponder.on("LiskEscrow:EscrowCreated", async ({ event, context }) => {
+  const { escrowId, buyer, seller, amount, deliveryDeadline } = event.args;
+
+  // The token is not part of the event, so read it from the escrow struct
+  const [, , , , , token] = await context.client.readContract({
+    abi: context.contracts.LiskEscrow.abi,
+    address: event.log.address,
+    functionName: "getEscrowDetails",
+    args: [escrowId],
+  });
+  await ensureToken(context, token, event.block.timestamp);
+
+  await context.db.insert(escrow).values({
+    chainId: context.chain.id,
+    id: escrowId,
+    buyer,
+    seller,
+    amount,
+    token,
+    deliveryDeadline,
+    status: "CREATED",
+    createdAt: event.block.timestamp,
+    updatedAt: event.block.timestamp,
+  });
+
+  await context.db.insert(escrowEvent).values({
+    id: event.id,
+    chainId: context.chain.id,
+    escrowId,
+    type: "CREATED",
+    actor: buyer,
+    amount,
+    ...transactionFields(event, context),
+  });
+
+  for (const address of [buyer, seller]) {
+    await recordVolume(
+      context,
+      { address, token, timestamp: event.block.timestamp },
+      { createdCount: 1 },
+    );
+    const joined = await context.db
+      .insert(party)
+      .values({
+        chainId: context.chain.id,
+        address,
+        firstSeenAt: event.block.timestamp,
+      })
+      .onConflictDoNothing();
+    if (joined) await openBalances(context, address, event.block);
+  }
+});
+
+ponder.on("LiskEscrow:EscrowFunded", async ({ event, context }) => {
+  const { escrowId } = event.args;
+
+  const row = await context.db.update(escrow, { chainId: context.chain.id, id: escrowId }).set({
+    status: "FUNDED",
+    fundedAt: event.block.timestamp,
+    updatedAt: event.block.timestamp,
+  });
+
+  await context.db.insert(escrowEvent).values({
+    id: event.id,
+    chainId: context.chain.id,
+    escrowId,
+    type: "FUNDED",
+    actor: row.buyer,
+    amount: row.amount,
+    ...transactionFields(event, context),
+  });
+
+  for (const address of [row.buyer, row.seller]) {
+    await recordVolume(
+      context,
+      { address, token: row.token, timestamp: event.block.timestamp },
+      { fundedCount: 1, fundedVolume: row.amount },
+    );
+  }
+});
+
+ponder.on("LiskEscrow:DocumentsUploaded", async ({ event, context }) => {
+  const { escrowId, documentHash } = event.args;
+
+  const row = await context.db.update(escrow, { chainId: context.chain.id, id: escrowId }).set((row) => ({
+    status: "DOCUMENTS_PENDING",
+    documentCount: row.documentCount + 1,
+    updatedAt: event.block.timestamp,
+  }));
+
+  // Only the seller can upload; the submitter is the relayer account when
+  // the call went through EscrowRelayer
+  const fields = transactionFields(event, context);
+  await context.db.insert(escrowDocument).values({
+    chainId: context.chain.id,
+    escrowId,
+    position: row.documentCount - 1,
+    documentHash,
+    uploader: row.seller,
+    submitter: fields.sender,
+    relayed: fields.relayed,
+    timestamp: fields.timestamp,
+    blockNumber: fields.blockNumber,
+    transactionHash: fields.transactionHash,
+  });
+
+  await context.db.insert(escrowEvent).values({
+    id: event.id,
+    chainId: context.chain.id,
+    escrowId,
+    type: "DOCUMENT_UPLOADED",
+    actor: row.seller,
+    ...fields,
+  });
+});
+
+ponder.on("LiskEscrow:DeliveryConfirmed", async ({ event, context }) => {
+  const { escrowId } = event.args;
+
+  // PaymentReleased follows in the same transaction and records settledAt
+  const row = await context.db.update(escrow, { chainId: context.chain.id, id: escrowId }).set({
+    status: "SETTLED",
+    overdue: false,
+    updatedAt: event.block.timestamp,
+  });
+
+  await context.db.insert(escrowEvent).values({
+    id: event.id,
+    chainId: context.chain.id,
+    escrowId,
+    type: "DELIVERY_CONFIRMED",
+    actor: row.buyer,
+    ...transactionFields(event, context),
+  });
+});
+
+ponder.on("LiskEscrow:PaymentReleased", async ({ event, context }) => {
+  const { escrowId, recipient, amount } = event.args;
+
+  // Emitted by confirmDelivery and by both outcomes of resolveDispute
+  const row = await context.db.update(escrow, { chainId: context.chain.id, id: escrowId }).set({
+    status: "SETTLED",
+    overdue: false,
+    releasedTo: recipient,
+    settledAt: event.block.timestamp,
+    updatedAt: event.block.timestamp,
+  });
+
+  await context.db.insert(escrowEvent).values({
+    id: event.id,
+    chainId: context.chain.id,
+    escrowId,
+    type: "PAYMENT_RELEASED",
+    actor: recipient,
+    amount,
+    ...transactionFields(event, context),
+  });
+
+  // resolveDispute has no event of its own; the recipient is the outcome
+  const openDispute = await context.db.find(dispute, { chainId: context.chain.id, escrowId });
+  if (openDispute && openDispute.resolvedAt === null) {
+    await context.db.update(dispute, { chainId: context.chain.id, escrowId }).set({
+      resolvedAt: event.block.timestamp,
+      resolutionTime: event.block.timestamp - openDispute.initiatedAt,
+      refundedBuyer: recipient.toLowerCase() === row.buyer.toLowerCase(),
+      resolutionTransactionHash: event.transaction.hash,
+    });
+  }
+
+  const bucket = { token: row.token, timestamp: event.block.timestamp };
+  if (recipient.toLowerCase() === row.seller.toLowerCase()) {
+    await recordVolume(
+      context,
+      { ...bucket, address: row.seller },
+      { releasedCount: 1, releasedVolume: amount },
+    );
+  } else {
+    // A refund to the buyer: income for one side, lost sale for the other
+    for (const address of [row.buyer, row.seller]) {
+      await recordVolume(
+        context,
+        { ...bucket, address },
+        { refundedCount: 1, refundedVolume: amount },
+      );
+    }
+  }
+});
+
+ponder.on("LiskEscrow:EscrowCancelled", async ({ event, context }) => {
+  const { escrowId } = event.args;
+
+  await context.db.update(escrow, { chainId: context.chain.id, id: escrowId }).set({
+    status: "CANCELLED",
+    overdue: false,
+    updatedAt: event.block.timestamp,
+  });
+
+  // cancelEscrow can be called by either party, so take the caller from the
+  // tx. A relayed cancel is sent by the relayer, so take the party that
+  // signed it from the relayCancelEscrow call instead.
+  const fields = transactionFields(event, context);
+  let actor = event.transaction.from;
+  if (fields.relayed) {
+    const call = decodeFunctionData({
+      abi: EscrowRelayerAbi,
+      data: event.transaction.input,
+    });
+    if (call.functionName === "relayCancelEscrow") actor = call.args[1];
+  }
+
+  await context.db.insert(escrowEvent).values({
+    id: event.id,
+    chainId: context.chain.id,
+    escrowId,
+    type: "CANCELLED",
+    actor,
+    ...fields,
+  });
+});
+
+ponder.on("LiskEscrow:DisputeInitiated", async ({ event, context }) => {
+  const { escrowId, initiator, reason } = event.args;
+
+  const row = await context.db.update(escrow, { chainId: context.chain.id, id: escrowId }).set({
+    status: "DISPUTED",
+    overdue: false,
+    updatedAt: event.block.timestamp,
+  });
+
+  await context.db.insert(escrowEvent).values({
+    id: event.id,
+    chainId: context.chain.id,
+    escrowId,
+    type: "DISPUTED",
+    actor: initiator,
+    ...transactionFields(event, context),
+  });
+
+  await context.db.insert(dispute).values({
+    chainId: context.chain.id,
+    escrowId,
+    buyer: row.buyer,
+    seller: row.seller,
+    amount: row.amount,
+    token: row.token,
+    initiator,
+    reason,
+    initiatedAt: event.block.timestamp,
+    transactionHash: event.transaction.hash,
+  });
+});
+
+ponder.on("OverdueCheck:block", async ({ event, context }) => {
+  // Escrows leave these states through the handlers above, which clear the
+  // flag, so only the transition into overdue happens here. updatedAt is left
+  // alone: a missed deadline is not activity by either party.
+  await context.db.sql
+    .update(escrow)
+    .set({ overdue: true })
+    .where(
+      and(
+        eq(escrow.chainId, context.chain.id),
+        eq(escrow.overdue, false),
+        inArray(escrow.status, ["CREATED", "FUNDED", "DOCUMENTS_PENDING"]),
+        lt(escrow.deliveryDeadline, event.block.timestamp),
+      ),
+    );
+});
@@ -0,0 +1,89 @@
+import type { Context } from "ponder:registry";
+import { token, tokenBalance } from "ponder:schema";
+import { type Address, erc20Abi } from "viem";
+
+import type { DefaultTokenDecimals } from "./api/types";
+
+/** Decimals used for tokens without metadata, here and in the API. */
+export const DEFAULT_DECIMALS: DefaultTokenDecimals = 18;
+
+/**
+ * Stores symbol, name and decimals for a token the first time it is seen.
+ * The getters are optional in ERC-20, so each one is read separately and a
+ * missing one does not block indexing of the escrow.
+ */
+export async function ensureToken(
+  context: Context,
+  address: Address,
+  timestamp: bigint,
+) {
+  const existing = await context.db.find(token, {
+    chainId: context.chain.id,
+    address,
+  });
+  if (existing) return existing;
+
+  const read = async <T>(
+    functionName: "symbol" | "name" | "decimals",
+  ): Promise<T | null> => {
+    try {
+      return (await context.client.readContract({
+        abi: erc20Abi,
+        address,
+        functionName,
+      })) as T;
+    } catch {
+      return null;
+    }
+  };
+
+  const [symbol, name, decimals] = [
+    await read<string>("symbol"),
+    await read<string>("name"),
+    await read<number>("decimals"),
+  ];
+
+  return context.db.insert(token).values({
+    chainId: context.chain.id,
+    address,
+    symbol,
+    name,
+    decimals: decimals ?? DEFAULT_DECIMALS,
+    firstSeenAt: timestamp,
+  });
+}
+
+/**
+ * Opens a new party's balance in every tracked token. Transfers earlier in
+ * the block it became a party in were skipped, so the balance is read at the
+ * end of that block, and the Transfer handler does not apply the block's
+ * later transfers again.
+ */
+export async function openBalances(
+  context: Context,
+  account: Address,
+  block: { number: bigint; timestamp: bigint },
+) {
+  // Undefined on chains without TOKEN_CONTRACTS
+  const tokens = context.contracts.EscrowToken?.address ?? [];
+  for (const tokenAddress of tokens) {
+    const balance = await context.client.readContract({
+      abi: erc20Abi,
+      address: tokenAddress,
+      functionName: "balanceOf",
+      args: [account],
+      blockNumber: block.number,
+    });
+    await context.db
+      .insert(tokenBalance)
+      .values({
+        chainId: context.chain.id,
+        token: tokenAddress,
+        account,
+        balance,
+        openedAt: block.number,
+        updatedAt: block.timestamp,
+      })
+      .onConflictDoNothing();
+  }
+}
@@ -0,0 +1,59 @@
+import type { Context } from "ponder:registry";
+import { volumeDaily, volumeMonthly } from "ponder:schema";
+import type { Address } from "viem";
+
+const SECONDS_PER_DAY = 86_400n;
+
+type VolumeDelta = {
+  createdCount?: number;
+  fundedCount?: number;
+  fundedVolume?: bigint;
+  releasedCount?: number;
+  releasedVolume?: bigint;
+  refundedCount?: number;
+  refundedVolume?: bigint;
+};
+
+export function startOfDay(timestamp: bigint) {
+  return timestamp - (timestamp % SECONDS_PER_DAY);
+}
+
+export function startOfMonth(timestamp: bigint) {
+  const date = new Date(Number(timestamp) * 1000);
+  return BigInt(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000);
+}
+
+/** Adds `delta` to the day and month buckets of one address and token. */
+export async function recordVolume(
+  context: Context,
+  {
+    address,
+    token,
+    timestamp,
+  }: { address: Address; token: Address; timestamp: bigint },
+  delta: VolumeDelta,
+) {
+  for (const [table, periodStart] of [
+    [volumeDaily, startOfDay(timestamp)],
+    [volumeMonthly, startOfMonth(timestamp)],
+  ] as const) {
+    await context.db
+      .insert(table)
+      .values({
+        chainId: context.chain.id,
+        address,
+        token,
+        periodStart,
+        ...delta,
+      })
+      .onConflictDoUpdate((row) => ({
+        createdCount: row.createdCount + (delta.createdCount ?? 0),
+        fundedCount: row.fundedCount + (delta.fundedCount ?? 0),
+        fundedVolume: row.fundedVolume + (delta.fundedVolume ?? 0n),
+        releasedCount: row.releasedCount + (delta.releasedCount ?? 0),
+        releasedVolume: row.releasedVolume + (delta.releasedVolume ?? 0n),
+        refundedCount: row.refundedCount + (delta.refundedCount ?? 0),
+        refundedVolume: row.refundedVolume + (delta.refundedVolume ?? 0n),
+      }));
+  }
+}
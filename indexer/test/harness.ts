@@ -0,0 +1,272 @@
+import {
+  type ChildProcess,
+  type SpawnOptions,
+  spawn,
+  spawnSync,
+} from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  defineChain,
+  http,
+  parseAbi,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+// Boots Anvil, deploys the contracts with contract/script/Deploy.s.sol and
+// runs `ponder start` against them, so tests can drive escrows on-chain and
+// read back what was indexed.
+
+const ANVIL_PORT = 8546;
+const INDEXER_PORT = 42169;
+const indexerDir = fileURLToPath(new URL("..", import.meta.url));
+const contractDir = path.resolve(indexerDir, "../contract");
+
+export const indexerUrl = `http://127.0.0.1:${INDEXER_PORT}`;
+
+// Anvil's default dev accounts; the deployer owns the contracts
+const privateKeys = {
+  deployer:
+    "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  buyer: "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  seller: "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+} as const satisfies Record<string, Hex>;
+
+type AccountName = keyof typeof privateKeys;
+
+export const accounts = {
+  deployer: privateKeyToAccount(privateKeys.deployer),
+  buyer: privateKeyToAccount(privateKeys.buyer),
+  seller: privateKeyToAccount(privateKeys.seller),
+} satisfies Record<AccountName, unknown>;
+
+export const anvil = defineChain({
+  id: 31337,
+  name: "Anvil",
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: { default: { http: [`http://127.0.0.1:${ANVIL_PORT}`] } },
+});
+
+export const publicClient = createPublicClient({
+  chain: anvil,
+  transport: http(),
+});
+
+// Moves the chain's clock, e.g. past a delivery deadline
+export const testClient = createTestClient({
+  chain: anvil,
+  mode: "anvil",
+  transport: http(),
+});
+
+// MockUSDC adds owner minting, a faucet and ERC-2612 permits to ERC-20
+export const mockUsdcAbi = parseAbi([
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+]);
+
+export type Deployment = {
+  escrow: Address;
+  relayer: Address;
+  usdc: Address;
+};
+
+/** Both Anvil and Forge are needed; the suite is skipped without them. */
+export function hasFoundry() {
+  return ["anvil", "forge"].every(
+    (bin) => spawnSync(bin, ["--version"], { stdio: "ignore" }).status === 0,
+  );
+}
+
+const processes: ChildProcess[] = [];
+let databaseDirectory: string | undefined;
+
+async function waitFor(
+  label: string,
+  ready: () => Promise<boolean>,
+  timeoutMs = 120_000,
+) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await ready().catch(() => false)) return;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  throw new Error(`Timed out waiting for ${label}`);
+}
+
+// Children get their own process group so stopAll also reaches the
+// processes they start, such as the ponder process behind npx. Set
+// INDEXER_TEST_LOGS=1 to see their output.
+function start(command: string, args: string[], options: SpawnOptions = {}) {
+  processes.push(
+    spawn(command, args, {
+      ...options,
+      stdio: process.env.INDEXER_TEST_LOGS ? "inherit" : "ignore",
+      detached: true,
+    }),
+  );
+}
+
+export async function startAnvil() {
+  start("anvil", [
+    "--port",
+    String(ANVIL_PORT),
+    "--chain-id",
+    String(anvil.id),
+  ]);
+  await waitFor("anvil", async () => (await publicClient.getChainId()) > 0);
+}
+
+/** Runs Deploy.s.sol and reads the addresses from its broadcast log. */
+export function deployContracts(): Deployment {
+  const result = spawnSync(
+    "forge",
+    [
+      "script",
+      "script/Deploy.s.sol:DeployScript",
+      "--rpc-url",
+      anvil.rpcUrls.default.http[0],
+      "--broadcast",
+    ],
+    {
+      cwd: contractDir,
+      env: { ...process.env, PRIVATE_KEY: privateKeys.deployer },
+      encoding: "utf8",
+    },
+  );
+  if (result.status !== 0) {
+    throw new Error(`forge script failed:\n${result.stdout}${result.stderr}`);
+  }
+
+  const broadcast = JSON.parse(
+    readFileSync(
+      path.join(
+        contractDir,
+        `broadcast/Deploy.s.sol/${anvil.id}/run-latest.json`,
+      ),
+      "utf8",
+    ),
+  ) as {
+    transactions: {
+      transactionType: string;
+      contractName: string | null;
+      contractAddress: Address | null;
+    }[];
+  };
+  const deployed = (name: string) => {
+    const tx = broadcast.transactions.find(
+      (tx) => tx.transactionType === "CREATE" && tx.contractName === name,
+    );
+    if (!tx?.contractAddress) throw new Error(`${name} was not deployed`);
+    return tx.contractAddress;
+  };
+
+  return {
+    escrow: deployed("LiskEscrow"),
+    relayer: deployed("EscrowRelayer"),
+    usdc: deployed("MockUSDC"),
+  };
+}
+
+export async function startIndexer(deployment: Deployment) {
+  databaseDirectory = mkdtempSync(path.join(tmpdir(), "escrow-indexer-"));
+  // The database is thrown away afterwards, so the default schema will do
+  start(
+    "npx",
+    ["ponder", "start", "--schema", "public", "--port", String(INDEXER_PORT)],
+    {
+      cwd: indexerDir,
+      env: {
+        ...process.env,
+        PONDER_PGLITE_DIRECTORY: databaseDirectory,
+        PONDER_RPC_URL_31337: anvil.rpcUrls.default.http[0],
+        ESCROW_CONTRACT_31337: deployment.escrow,
+        RELAYER_CONTRACT_31337: deployment.relayer,
+        TOKEN_CONTRACTS_31337: deployment.usdc,
+        ESCROW_START_BLOCK_31337: "0",
+        // Leave the testnet out even when it is configured in the shell
+        ESCROW_CONTRACT_4202: "",
+      },
+    },
+  );
+  await waitFor(
+    "indexer",
+    async () => (await fetch(`${indexerUrl}/ready`)).ok,
+    180_000,
+  );
+}
+
+/** Resolves once the indexer has processed the latest Anvil block. */
+export async function waitForIndexer() {
+  const head = await publicClient.getBlockNumber();
+  await waitFor("indexer to catch up", async () => {
+    const status = (await (await fetch(`${indexerUrl}/status`)).json()) as {
+      anvil?: { block: { number: number } };
+    };
+    return BigInt(status.anvil?.block.number ?? 0) >= head;
+  });
+}
+
+export function stopAll() {
+  for (const child of processes.splice(0).reverse()) {
+    if (child.pid === undefined || child.exitCode !== null) continue;
+    try {
+      process.kill(-child.pid);
+    } catch {
+      // Already gone
+    }
+  }
+  if (databaseDirectory) {
+    rmSync(databaseDirectory, { recursive: true, force: true });
+    databaseDirectory = undefined;
+  }
+}
+
+export function wallet(name: AccountName) {
+  return createWalletClient({
+    account: accounts[name],
+    chain: anvil,
+    transport: http(),
+  });
+}
+
+/** Waits for a sent transaction and fails on a revert. */
+export async function mined(hash: Promise<Hash>) {
+  const receipt = await publicClient.waitForTransactionReceipt({
+    hash: await hash,
+  });
+  if (receipt.status !== "success") {
+    throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+  }
+  return receipt;
+}
+
+/** GET against the indexer's REST API. */
+export async function api<T>(pathname: string) {
+  const response = await fetch(`${indexerUrl}${pathname}`);
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+/** Query against Ponder's GraphQL API, which maps the schema tables 1:1. */
+export async function graphql<T>(
+  query: string,
+  variables: Record<string, unknown> = {},
+) {
+  const response = await fetch(`${indexerUrl}/graphql`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ query, variables }),
+  });
+  const body = (await response.json()) as { data: T; errors?: unknown[] };
+  if (body.errors) throw new Error(JSON.stringify(body.errors));
+  return body.data;
+}
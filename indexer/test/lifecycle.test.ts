@@ -0,0 +1,509 @@
+import {
+  type Address,
+  type Hex,
+  keccak256,
+  parseEventLogs,
+  parseUnits,
+  toHex,
+} from "viem";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { EscrowRelayerAbi } from "../abis/EscrowRelayerAbi";
+import { LiskEscrowAbi } from "../abis/LiskEscrowAbi";
+import type {
+  DisputeDetail,
+  DocumentAnchor,
+  EscrowDetail,
+  EscrowEvent,
+  EscrowTransition,
+  Items,
+  TokenBalance,
+  VolumeSeries,
+} from "../src/api/types";
+import {
+  type Deployment,
+  accounts,
+  anvil,
+  api,
+  deployContracts,
+  graphql,
+  hasFoundry,
+  indexerUrl,
+  mined,
+  mockUsdcAbi,
+  publicClient,
+  startAnvil,
+  startIndexer,
+  stopAll,
+  testClient,
+  waitForIndexer,
+  wallet,
+} from "./harness";
+
+const usdc = (amount: string) => parseUnits(amount, 6);
+const buyer = accounts.buyer.address.toLowerCase() as Address;
+const seller = accounts.seller.address.toLowerCase() as Address;
+
+let deployment: Deployment;
+const escrows = {} as Record<
+  "happy" | "cancelled" | "relayedCancel" | "refunded" | "released",
+  Hex
+>;
+
+async function createEscrow(amount: bigint, deliveryWindow = 86_400n) {
+  const block = await publicClient.getBlock();
+  const receipt = await mined(
+    wallet("buyer").writeContract({
+      address: deployment.escrow,
+      abi: LiskEscrowAbi,
+      functionName: "createEscrow",
+      args: [
+        accounts.seller.address,
+        amount,
+        deployment.usdc,
+        block.timestamp + deliveryWindow,
+      ],
+    }),
+  );
+  const [created] = parseEventLogs({
+    abi: LiskEscrowAbi,
+    eventName: "EscrowCreated",
+    logs: receipt.logs,
+  });
+  return created!.args.escrowId;
+}
+
+async function fundEscrow(escrowId: Hex, amount: bigint) {
+  await mined(
+    wallet("buyer").writeContract({
+      address: deployment.usdc,
+      abi: mockUsdcAbi,
+      functionName: "approve",
+      args: [deployment.escrow, amount],
+    }),
+  );
+  await mined(
+    wallet("buyer").writeContract({
+      address: deployment.escrow,
+      abi: LiskEscrowAbi,
+      functionName: "fundEscrow",
+      args: [escrowId],
+    }),
+  );
+}
+
+async function uploadDocument(escrowId: Hex, name: string) {
+  await mined(
+    wallet("seller").writeContract({
+      address: deployment.escrow,
+      abi: LiskEscrowAbi,
+      functionName: "storeDocumentHash",
+      args: [escrowId, keccak256(toHex(name))],
+    }),
+  );
+}
+
+async function dispute(
+  escrowId: Hex,
+  initiator: "buyer" | "seller",
+  reason: string,
+  refundBuyer: boolean,
+) {
+  await mined(
+    wallet(initiator).writeContract({
+      address: deployment.escrow,
+      abi: LiskEscrowAbi,
+      functionName: "initiateDispute",
+      args: [escrowId, reason],
+    }),
+  );
+  await mined(
+    wallet("deployer").writeContract({
+      address: deployment.escrow,
+      abi: LiskEscrowAbi,
+      functionName: "resolveDispute",
+      args: [escrowId, refundBuyer],
+    }),
+  );
+}
+
+/** Cancels through EscrowRelayer, which the deployer is authorized on. */
+async function relayCancel(escrowId: Hex, party: "buyer" | "seller") {
+  const nonce = await publicClient.readContract({
+    address: deployment.escrow,
+    abi: LiskEscrowAbi,
+    functionName: "nonces",
+    args: [accounts[party].address],
+  });
+  const signature = await wallet(party).signTypedData({
+    domain: {
+      name: "LiskEscrow",
+      version: "1",
+      chainId: anvil.id,
+      verifyingContract: deployment.escrow,
+    },
+    types: {
+      CancelEscrow: [
+        { name: "escrowId", type: "bytes32" },
+        { name: "nonce", type: "uint256" },
+      ],
+    },
+    primaryType: "CancelEscrow",
+    message: { escrowId, nonce },
+  });
+  await mined(
+    wallet("deployer").writeContract({
+      address: deployment.relayer,
+      abi: EscrowRelayerAbi,
+      functionName: "relayCancelEscrow",
+      args: [escrowId, accounts[party].address, signature],
+    }),
+  );
+}
+
+function eventTypes(detail: { events: EscrowEvent[] }) {
+  return detail.events.map((event) => event.type);
+}
+
+/** Reads `transition` events off an open stream until it has `count`. */
+async function readTransitions(response: Response, count: number) {
+  const reader = response
+    .body!.pipeThrough(new TextDecoderStream())
+    .getReader();
+  const transitions: EscrowTransition[] = [];
+  let buffer = "";
+  while (transitions.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop()!;
+    for (const message of messages) {
+      const lines = message.split("\n");
+      if (!lines.includes("event: transition")) continue;
+      const data = lines.find((line) => line.startsWith("data: "))!;
+      transitions.push(JSON.parse(data.slice("data: ".length)));
+    }
+  }
+  await reader.cancel();
+  return transitions;
+}
+
+describe.skipIf(!hasFoundry())("escrow lifecycle indexing", () => {
+  beforeAll(async () => {
+    await startAnvil();
+    deployment = deployContracts();
+
+    // Deploy.s.sol mints the initial supply to the deployer
+    await mined(
+      wallet("deployer").writeContract({
+        address: deployment.usdc,
+        abi: mockUsdcAbi,
+        functionName: "transfer",
+        args: [accounts.buyer.address, usdc("10000")],
+      }),
+    );
+
+    escrows.happy = await createEscrow(usdc("1000"));
+    await fundEscrow(escrows.happy, usdc("1000"));
+    await uploadDocument(escrows.happy, "bill-of-lading.pdf");
+    await mined(
+      wallet("buyer").writeContract({
+        address: deployment.escrow,
+        abi: LiskEscrowAbi,
+        functionName: "confirmDelivery",
+        args: [escrows.happy],
+      }),
+    );
+
+    escrows.cancelled = await createEscrow(usdc("200"));
+    await mined(
+      wallet("seller").writeContract({
+        address: deployment.escrow,
+        abi: LiskEscrowAbi,
+        functionName: "cancelEscrow",
+        args: [escrows.cancelled],
+      }),
+    );
+
+    escrows.relayedCancel = await createEscrow(usdc("250"));
+    await relayCancel(escrows.relayedCancel, "seller");
+
+    escrows.refunded = await createEscrow(usdc("300"));
+    await fundEscrow(escrows.refunded, usdc("300"));
+    await dispute(escrows.refunded, "buyer", "Goods never shipped", true);
+
+    escrows.released = await createEscrow(usdc("400"));
+    await fundEscrow(escrows.released, usdc("400"));
+    await uploadDocument(escrows.released, "invoice.pdf");
+    await dispute(
+      escrows.released,
+      "seller",
+      "Buyer stopped responding",
+      false,
+    );
+
+    await startIndexer(deployment);
+    await waitForIndexer();
+  }, 300_000);
+
+  afterAll(() => {
+    stopAll();
+  });
+
+  it("settles the happy path with the seller paid", async () => {
+    const { status, body } = await api<EscrowDetail>(
+      `/escrows/${escrows.happy}`,
+    );
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      buyer,
+      seller,
+      amount: usdc("1000").toString(),
+      token: deployment.usdc.toLowerCase(),
+      status: "SETTLED",
+      documentCount: 1,
+      releasedTo: seller,
+      overdue: false,
+    });
+    expect(body.fundedAt).not.toBeNull();
+    expect(body.settledAt).not.toBeNull();
+    expect(eventTypes(body)).toEqual([
+      "CREATED",
+      "FUNDED",
+      "DOCUMENT_UPLOADED",
+      "DELIVERY_CONFIRMED",
+      "PAYMENT_RELEASED",
+    ]);
+    expect(body.documents).toEqual([
+      expect.objectContaining({
+        position: 0,
+        documentHash: keccak256(toHex("bill-of-lading.pdf")),
+        uploader: seller,
+        relayed: false,
+      }),
+    ]);
+    expect(body.events.every((event) => !event.relayed)).toBe(true);
+  });
+
+  it("lists the documents on a party's escrows", async () => {
+    const { status, body } = await api<Items<DocumentAnchor>>(
+      `/documents?address=${seller}`,
+    );
+    expect(status).toBe(200);
+    expect(body.items.map((item) => item.escrowId).sort()).toEqual(
+      [escrows.happy, escrows.released].sort(),
+    );
+    expect(body.items.every((item) => item.uploader === seller)).toBe(true);
+  });
+
+  it("records who cancelled an unfunded escrow", async () => {
+    const { body } = await api<EscrowDetail>(`/escrows/${escrows.cancelled}`);
+    expect(body.status).toBe("CANCELLED");
+    expect(body.fundedAt).toBeNull();
+    expect(eventTypes(body)).toEqual(["CREATED", "CANCELLED"]);
+    expect(body.events[1]!.actor).toBe(seller);
+  });
+
+  it("credits a relayed cancel to the party that signed it", async () => {
+    const { body } = await api<EscrowDetail>(
+      `/escrows/${escrows.relayedCancel}`,
+    );
+    expect(body.status).toBe("CANCELLED");
+    expect(body.events[1]).toMatchObject({
+      type: "CANCELLED",
+      actor: seller,
+      relayed: true,
+      sender: accounts.deployer.address.toLowerCase(),
+    });
+  });
+
+  it("refunds the buyer when a dispute is resolved in their favour", async () => {
+    const { body: detail } = await api<EscrowDetail>(
+      `/escrows/${escrows.refunded}`,
+    );
+    expect(detail.status).toBe("SETTLED");
+    expect(detail.releasedTo).toBe(buyer);
+    expect(eventTypes(detail)).toEqual([
+      "CREATED",
+      "FUNDED",
+      "DISPUTED",
+      "PAYMENT_RELEASED",
+    ]);
+
+    const { body } = await api<DisputeDetail>(`/disputes/${escrows.refunded}`);
+    expect(body).toMatchObject({
+      initiator: buyer,
+      initiatorRole: "buyer",
+      reason: "Goods never shipped",
+      status: "RESOLVED",
+      refundedBuyer: true,
+    });
+    expect(body.resolutionTime).toBeGreaterThanOrEqual(0);
+  });
+
+  it("releases to the seller when a dispute is resolved in theirs", async () => {
+    const { body } = await api<DisputeDetail>(`/disputes/${escrows.released}`);
+    expect(body).toMatchObject({
+      initiator: seller,
+      initiatorRole: "seller",
+      reason: "Buyer stopped responding",
+      status: "RESOLVED",
+      refundedBuyer: false,
+    });
+    expect(eventTypes(body)).toEqual([
+      "CREATED",
+      "FUNDED",
+      "DOCUMENT_UPLOADED",
+      "DISPUTED",
+      "PAYMENT_RELEASED",
+    ]);
+    expect(body.events.at(-1)).toMatchObject({
+      actor: seller,
+      amount: usdc("400").toString(),
+    });
+  });
+
+  it("rejects cursors that do not match the sort key", async () => {
+    const cursor = (key: unknown[]) =>
+      Buffer.from(JSON.stringify(key)).toString("base64url");
+    for (const path of [
+      `/escrows?address=${buyer}&cursor=${cursor(["abc", 1, "x"])}`,
+      `/disputes?cursor=${cursor(["1", "1", escrows.refunded])}`,
+      `/transfers?address=${buyer}&cursor=${cursor(["1", "x"])}`,
+    ]) {
+      expect((await api(path)).status).toBe(400);
+    }
+  });
+
+  it("stores one escrow_event row per escrow log", async () => {
+    const data = await graphql<{
+      escrowEvents: { totalCount: number; items: { type: string }[] };
+      escrows: { items: { id: Hex; status: string }[] };
+    }>(`
+      {
+        escrowEvents(limit: 100) {
+          totalCount
+          items {
+            type
+          }
+        }
+        escrows {
+          items {
+            id
+            status
+          }
+        }
+      }
+    `);
+
+    const logs = await publicClient.getContractEvents({
+      address: deployment.escrow,
+      abi: LiskEscrowAbi,
+      fromBlock: 0n,
+    });
+    // Ownable and EIP-712 bookkeeping logs carry no escrowId
+    expect(data.escrowEvents.totalCount).toBe(
+      logs.filter((log) => "escrowId" in log.args).length,
+    );
+    // Escrows created within the same second have no defined order
+    expect(
+      Object.fromEntries(data.escrows.items.map((row) => [row.id, row.status])),
+    ).toEqual({
+      [escrows.happy]: "SETTLED",
+      [escrows.cancelled]: "CANCELLED",
+      [escrows.relayedCancel]: "CANCELLED",
+      [escrows.refunded]: "SETTLED",
+      [escrows.released]: "SETTLED",
+    });
+  });
+
+  it("buckets released and refunded volume per party", async () => {
+    const volume = async (address: Address) => {
+      const { body } = await api<VolumeSeries>(
+        `/volume?address=${address}&granularity=month`,
+      );
+      return body.items.reduce(
+        (total, bucket) => ({
+          createdCount: total.createdCount + bucket.createdCount,
+          fundedVolume: total.fundedVolume + BigInt(bucket.fundedVolume),
+          releasedVolume: total.releasedVolume + BigInt(bucket.releasedVolume),
+          refundedVolume: total.refundedVolume + BigInt(bucket.refundedVolume),
+        }),
+        {
+          createdCount: 0,
+          fundedVolume: 0n,
+          releasedVolume: 0n,
+          refundedVolume: 0n,
+        },
+      );
+    };
+
+    expect(await volume(seller)).toEqual({
+      createdCount: 5,
+      fundedVolume: usdc("1700"),
+      releasedVolume: usdc("1400"),
+      refundedVolume: usdc("300"),
+    });
+    expect(await volume(buyer)).toEqual({
+      createdCount: 5,
+      fundedVolume: usdc("1700"),
+      releasedVolume: 0n,
+      refundedVolume: usdc("300"),
+    });
+  });
+
+  it("keeps token balances in line with the chain", async () => {
+    for (const account of [accounts.buyer, accounts.seller]) {
+      const { body } = await api<Items<TokenBalance>>(
+        `/transfers/balances?address=${account.address}`,
+      );
+      const onChain = await publicClient.readContract({
+        address: deployment.usdc,
+        abi: mockUsdcAbi,
+        functionName: "balanceOf",
+        args: [account.address],
+      });
+      expect(body.items).toEqual([
+        expect.objectContaining({
+          token: deployment.usdc.toLowerCase(),
+          balance: onChain.toString(),
+        }),
+      ]);
+    }
+  });
+
+  // Creates an escrow, so it runs after the checks on the scenario above
+  it("streams missed transitions and escrows going overdue", async () => {
+    const escrowId = await createEscrow(usdc("50"), 60n);
+
+    // Resuming from the start replays the escrow's CREATED
+    const response = await fetch(
+      `${indexerUrl}/escrows/stream?escrowId=${escrowId}`,
+      { headers: { "Last-Event-ID": "0" } },
+    );
+    const transitions = readTransitions(response, 2);
+
+    // The next block is past the deadline, and OverdueCheck runs on every
+    // Anvil block
+    await testClient.increaseTime({ seconds: 120 });
+    await mined(
+      wallet("buyer").writeContract({
+        address: deployment.usdc,
+        abi: mockUsdcAbi,
+        functionName: "approve",
+        args: [deployment.escrow, 0n],
+      }),
+    );
+
+    expect(await transitions).toEqual([
+      expect.objectContaining({ type: "CREATED", escrowId, status: "CREATED" }),
+      expect.objectContaining({
+        type: "OVERDUE",
+        escrowId,
+        status: "CREATED",
+        transactionHash: null,
+      }),
+    ]);
+  }, 60_000);
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // Suites share one Anvil node and indexer port
+    fileParallelism: false,
+    testTimeout: 30_000,
+    hookTimeout: 300_000,
+  },
+});
@@ -2,6 +2,7 @@ const express = require('express');
 const cors = require('cors');
 const helmet = require('helmet');
 const { RateLimiterMemory } = require('rate-limiter-flexible');
+const { BaseError, ContractFunctionRevertedError } = require('viem');
 require('dotenv').config();
 
 const { RelayerService } = require('./services/relayer');
@@ -49,6 +50,14 @@ app.use(async (req, res, next) => {
   }
 });
 
+// The require() message when gas estimation or simulation hit a revert, so
+// clients do not have to dig it out of the error details
+function revertReason(error) {
+  if (!(error instanceof BaseError)) return undefined;
+  const revert = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+  return revert?.reason;
+}
+
 // Initialize services
 const contractService = new ContractService();
 const relayerService = new RelayerService(contractService);
@@ -71,8 +80,10 @@ app.get('/nonce/:address', async (req, res) => {
       return res.status(400).json({ error: 'Invalid address format' });
     }
     
-    const nonce = await contractService.getNonce(address);
-    res.json({ nonce: nonce.toString() });
+    // nonce is the confirmed value; sign with nextNonce, which also counts
+    // relays for this address that are still queued or awaiting a receipt
+    const nonce = await relayerService.nonces.getNonceInfo(address);
+    res.json(nonce);
   } catch (error) {
     console.error('Get nonce error:', error);
     res.status(500).json({ error: 'Failed to get nonce' });
@@ -104,6 +115,7 @@ app.post('/relay/create-escrow', async (req, res) => {
     res.status(500).json({ 
       error: 'Failed to relay transaction',
       details: error.message,
+      reason: revertReason(error),
     });
   }
 });
@@ -111,16 +123,21 @@ app.post('/relay/create-escrow', async (req, res) => {
 // Relay fund escrow transaction
 app.post('/relay/fund-escrow', async (req, res) => {
   try {
-    const { escrowId, buyer, signature } = req.body;
+    const { escrowId, buyer, signature, permit } = req.body;
     
     if (!escrowId || !buyer || !signature) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
     
+    if (permit && (!permit.deadline || !permit.signature)) {
+      return res.status(400).json({ error: 'Permit needs a deadline and signature' });
+    }
+    
     const result = await relayerService.relayFundEscrow({
       escrowId,
       buyer,
       signature,
+      permit,
     });
     
     res.json(result);
@@ -129,6 +146,7 @@ app.post('/relay/fund-escrow', async (req, res) => {
     res.status(500).json({ 
       error: 'Failed to relay transaction',
       details: error.message,
+      reason: revertReason(error),
     });
   }
 });
@@ -154,6 +172,7 @@ app.post('/relay/confirm-delivery', async (req, res) => {
     res.status(500).json({ 
       error: 'Failed to relay transaction',
       details: error.message,
+      reason: revertReason(error),
     });
   }
 });
@@ -180,6 +199,60 @@ app.post('/relay/store-document', async (req, res) => {
     res.status(500).json({ 
       error: 'Failed to relay transaction',
       details: error.message,
+      reason: revertReason(error),
+    });
+  }
+});
+
+// Relay initiate dispute transaction
+app.post('/relay/initiate-dispute', async (req, res) => {
+  try {
+    const { escrowId, reason, initiator, signature } = req.body;
+    
+    if (!escrowId || !reason || !initiator || !signature) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+    
+    const result = await relayerService.relayInitiateDispute({
+      escrowId,
+      reason,
+      initiator,
+      signature,
+    });
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Initiate dispute relay error:', error);
+    res.status(500).json({ 
+      error: 'Failed to relay transaction',
+      details: error.message,
+      reason: revertReason(error),
+    });
+  }
+});
+
+// Relay cancel escrow transaction
+app.post('/relay/cancel-escrow', async (req, res) => {
+  try {
+    const { escrowId, party, signature } = req.body;
+    
+    if (!escrowId || !party || !signature) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+    
+    const result = await relayerService.relayCancelEscrow({
+      escrowId,
+      party,
+      signature,
+    });
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Cancel escrow relay error:', error);
+    res.status(500).json({ 
+      error: 'Failed to relay transaction',
+      details: error.message,
+      reason: revertReason(error),
     });
   }
 });
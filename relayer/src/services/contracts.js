@@ -45,8 +45,11 @@ const ESCROW_ABI = parseAbi([
 const RELAYER_ABI = parseAbi([
   'function relayCreateEscrow(address,uint256,address,uint256,address,bytes) returns (bytes32)',
   'function relayFundEscrow(bytes32,address,bytes)',
+  'function relayFundEscrowWithPermit(bytes32,address,uint256,uint8,bytes32,bytes32,bytes)',
   'function relayConfirmDelivery(bytes32,address,bytes)',
   'function relayStoreDocument(bytes32,bytes32,address,bytes)',
+  'function relayInitiateDispute(bytes32,string,address,bytes)',
+  'function relayCancelEscrow(bytes32,address,bytes)',
 ]);
 
 const USDC_ABI = parseAbi([
@@ -145,8 +148,11 @@ class ContractService {
       const methodMap = {
         relayCreateEscrow: 'relayCreateEscrow',
         relayFundEscrow: 'relayFundEscrow',
+        relayFundEscrowWithPermit: 'relayFundEscrowWithPermit',
         relayConfirmDelivery: 'relayConfirmDelivery',
         relayStoreDocument: 'relayStoreDocument',
+        relayInitiateDispute: 'relayInitiateDispute',
+        relayCancelEscrow: 'relayCancelEscrow',
       };
       
       const functionName = methodMap[method];
@@ -169,7 +175,8 @@ class ContractService {
     }
   }
   
-  async executeTransaction(method, params, gasLimit) {
+  // Resolves with the hash as soon as the transaction is sent
+  async sendTransaction(method, params, gasLimit) {
     try {
       // Get current gas price
       const gasPrice = await this.publicClient.getGasPrice();
@@ -179,8 +186,11 @@ class ContractService {
       const methodMap = {
         relayCreateEscrow: 'relayCreateEscrow',
         relayFundEscrow: 'relayFundEscrow',
+        relayFundEscrowWithPermit: 'relayFundEscrowWithPermit',
         relayConfirmDelivery: 'relayConfirmDelivery',
         relayStoreDocument: 'relayStoreDocument',
+        relayInitiateDispute: 'relayInitiateDispute',
+        relayCancelEscrow: 'relayCancelEscrow',
       };
       
       const functionName = methodMap[method];
@@ -216,22 +226,23 @@ class ContractService {
         throw writeError;
       }
       
-      // Wait for transaction receipt with timeout
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash,
-        confirmations: 1,
-        timeout: 10_000, // 10 seconds timeout
-      });
-      
-      console.log(`✅ Transaction confirmed: ${receipt.transactionHash}`);
-      console.log(`⛽ Gas used: ${receipt.gasUsed.toString()}`);
-      
-      return receipt;
+      return hash;
     } catch (error) {
       console.error(`Transaction execution failed for ${method}:`, error);
       throw error;
     }
   }
+  
+  // Waits for a sent transaction to be mined, for as long as viem polls by
+  // default, whether or not it reverted
+  async waitForReceipt(hash) {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    
+    console.log(`✅ Transaction mined: ${hash} (${receipt.status})`);
+    console.log(`⛽ Gas used: ${receipt.gasUsed.toString()}`);
+    
+    return receipt;
+  }
 }
 
 module.exports = { ContractService };
\ No newline at end of file
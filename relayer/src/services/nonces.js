@@ -0,0 +1,172 @@
+// Meta-transaction nonces for signers, including relays that are still in
+// flight. LiskEscrow only bumps nonces[user] once a *Meta call is mined, so a
+// user who signs a second action while the first is pending needs the nonce
+// after the queued one, not the on-chain value.
+class NonceTracker {
+  constructor(contractService) {
+    this.contracts = contractService;
+    this.indexerUrl = process.env.INDEXER_URL;
+    this.chainId = parseInt(process.env.CHAIN_ID || '31337');
+
+    // lowercased address -> Map<nonce string, { nonce, action, submittedAt }>
+    this.pending = new Map();
+    // lowercased address -> tail of that signer's relay queue
+    this.queues = new Map();
+    // lowercased address -> tail of that signer's pending reservations
+    this.reserving = new Map();
+    // lowercased address -> highest confirmed nonce seen from either source
+    this.confirmed = new Map();
+  }
+
+  // Confirmed nonce from the indexer, falling back to an RPC read when it is
+  // not configured or unreachable
+  async getConfirmedNonce(address) {
+    if (this.indexerUrl) {
+      try {
+        const response = await fetch(
+          `${this.indexerUrl}/nonces/${address}?chainId=${this.chainId}`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          return { nonce: BigInt(data.nonce), source: 'indexer' };
+        }
+        console.warn(`Indexer nonce lookup failed: ${response.status}`);
+      } catch (error) {
+        console.warn('Indexer nonce lookup failed:', error.message);
+      }
+    }
+
+    return { nonce: await this.contracts.getNonce(address), source: 'rpc' };
+  }
+
+  // Drops entries the confirmed nonce has caught up with. The indexer can lag
+  // behind a mined relay, so entries are kept until then rather than removed
+  // as soon as the receipt arrives.
+  getPending(address, nonce) {
+    const confirmed = this.observe(address, nonce);
+    const entries = this.pending.get(address.toLowerCase());
+    if (!entries) return [];
+
+    for (const [key, entry] of entries) {
+      if (entry.nonce < confirmed) entries.delete(key);
+    }
+    if (entries.size === 0) this.pending.delete(address.toLowerCase());
+
+    return [...entries.values()].sort((a, b) => (a.nonce < b.nonce ? -1 : 1));
+  }
+
+  // Nonces only go up. Relays read the chain while /nonce may read a lagging
+  // indexer, so keep the highest value either has reported.
+  observe(address, nonce) {
+    const key = address.toLowerCase();
+    const seen = this.confirmed.get(key);
+    if (seen !== undefined && seen >= nonce) return seen;
+    this.confirmed.set(key, nonce);
+    return nonce;
+  }
+
+  // The nonce the next signature from this address has to use
+  nextNonce(address, nonce) {
+    const pending = this.getPending(address, nonce);
+    const confirmed = this.confirmed.get(address.toLowerCase());
+    if (pending.length === 0) return confirmed;
+    const last = pending[pending.length - 1].nonce;
+    return last >= confirmed ? last + 1n : confirmed;
+  }
+
+  // Takes the next nonce once `verify` accepts a signature over it, and
+  // records it as pending. A signer's reservations are made one at a time, so
+  // a concurrent relay expects the nonce after this one, while a request with
+  // a bad signature leaves the nonce for the signer's next relay.
+  reserve(address, nonce, action, verify) {
+    const key = address.toLowerCase();
+
+    const previous = this.reserving.get(key) || Promise.resolve();
+    const reserved = previous.then(async () => {
+      const next = this.nextNonce(address, nonce);
+      if (!(await verify(next))) {
+        throw new Error('Invalid signature');
+      }
+      this.add(address, next, action);
+      return next;
+    });
+
+    const tail = reserved.catch(() => {});
+    this.reserving.set(key, tail);
+    tail.then(() => {
+      if (this.reserving.get(key) === tail) this.reserving.delete(key);
+    });
+
+    return reserved;
+  }
+
+  async getNonceInfo(address) {
+    const { nonce, source } = await this.getConfirmedNonce(address);
+    const confirmed = this.observe(address, nonce);
+    const pending = this.getPending(address, confirmed);
+    return {
+      nonce: confirmed.toString(),
+      nextNonce: this.nextNonce(address, confirmed).toString(),
+      pending: pending.map((entry) => ({
+        nonce: entry.nonce.toString(),
+        action: entry.action,
+        submittedAt: entry.submittedAt,
+      })),
+      source,
+    };
+  }
+
+  // Runs a signer's relays one after another, each with the nonce it
+  // reserved. A *Meta call only passes once the previous nonce is mined, so a
+  // queued relay can neither be estimated nor sent before the one ahead of it
+  // is mined. The task sends the transaction and resolves with its hash,
+  // which is returned without waiting for the receipt; a failed task is left
+  // for the caller to release.
+  run(address, nonce, task) {
+    const key = address.toLowerCase();
+
+    const previous = this.queues.get(key) || Promise.resolve();
+    const result = previous.then(task);
+
+    // A reverted relay leaves the on-chain nonce as is. One that is not mined
+    // in time may still be, so its entry stays until the nonce catches up.
+    const mined = result.then(async (hash) => {
+      try {
+        const receipt = await this.contracts.waitForReceipt(hash);
+        if (receipt.status !== 'success') this.remove(address, nonce);
+      } catch (error) {
+        console.warn(`No receipt for ${hash}:`, error.message);
+      }
+    });
+
+    const tail = mined.catch(() => {});
+    this.queues.set(key, tail);
+    tail.then(() => {
+      if (this.queues.get(key) === tail) this.queues.delete(key);
+    });
+
+    return result;
+  }
+
+  // Records a reserved nonce until its relay fails or is confirmed
+  add(address, nonce, action) {
+    const key = address.toLowerCase();
+    if (!this.pending.has(key)) this.pending.set(key, new Map());
+    this.pending.get(key).set(nonce.toString(), {
+      nonce,
+      action,
+      submittedAt: new Date().toISOString(),
+    });
+  }
+
+  // For relays that failed or reverted, which leave the on-chain nonce as is
+  remove(address, nonce) {
+    const key = address.toLowerCase();
+    const entries = this.pending.get(key);
+    if (!entries) return;
+    entries.delete(nonce.toString());
+    if (entries.size === 0) this.pending.delete(key);
+  }
+}
+
+module.exports = { NonceTracker };
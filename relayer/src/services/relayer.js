@@ -1,8 +1,13 @@
-const { parseEther, keccak256, toHex, stringToHex, verifyTypedData, getAddress } = require('viem');
+const { parseEther, keccak256, stringToHex, verifyTypedData, getAddress, parseSignature } = require('viem');
+const { NonceTracker } = require('./nonces');
+
+// The relayer pays to store the reason on-chain
+const MAX_DISPUTE_REASON_LENGTH = 1000;
 
 class RelayerService {
   constructor(contractService) {
     this.contracts = contractService;
+    this.nonces = new NonceTracker(contractService);
     
     // EIP-712 domain
     this.domain = {
@@ -34,9 +39,34 @@ class RelayerService {
         { name: 'documentHash', type: 'bytes32' },
         { name: 'nonce', type: 'uint256' },
       ],
+      InitiateDispute: [
+        { name: 'escrowId', type: 'bytes32' },
+        { name: 'reasonHash', type: 'bytes32' },
+        { name: 'nonce', type: 'uint256' },
+      ],
+      CancelEscrow: [
+        { name: 'escrowId', type: 'bytes32' },
+        { name: 'nonce', type: 'uint256' },
+      ],
     };
   }
   
+  // Reserves the nonce after any relays still queued for this signer, once
+  // `verify` accepts the signature over it, and hands it to `relay`, which
+  // queues the transaction with nonces.run(). Checking the signature first
+  // means a request naming someone else's address cannot take their nonce; a
+  // relay that fails before its transaction is sent gives the nonce back.
+  async withNonce(signer, action, verify, relay) {
+    const confirmed = await this.contracts.getNonce(signer);
+    const nonce = await this.nonces.reserve(signer, confirmed, action, verify);
+    try {
+      return await relay(nonce);
+    } catch (error) {
+      this.nonces.remove(signer, nonce);
+      throw error;
+    }
+  }
+  
   async relayCreateEscrow(params) {
     const { seller, amount, token, deliveryDeadline, buyer, signature } = params;
     
@@ -47,138 +77,112 @@ class RelayerService {
       throw new Error('Invalid signature format');
     }
     
-    // Get nonce
-    const nonce = await this.contracts.getNonce(buyer);
-    
     // Verify signature
-    const message = {
-      seller: getAddress(seller),
-      amount: BigInt(amount),
-      token: getAddress(token),
-      deliveryDeadline: BigInt(deliveryDeadline),
-      nonce: BigInt(nonce),
-    };
-    
-    const isValid = await verifyTypedData({
+    const verify = (nonce) => verifyTypedData({
       address: buyer,
       domain: this.domain,
       types: { CreateEscrow: this.types.CreateEscrow },
       primaryType: 'CreateEscrow',
-      message,
+      message: {
+        seller: getAddress(seller),
+        amount: BigInt(amount),
+        token: getAddress(token),
+        deliveryDeadline: BigInt(deliveryDeadline),
+        nonce: BigInt(nonce),
+      },
       signature,
     });
     
-    if (!isValid) {
-      throw new Error('Invalid signature');
-    }
-    
-    console.log(`✅ Signature verified for buyer: ${buyer}`);
-    
-    // Check relayer balance
-    const balance = await this.contracts.getRelayerBalance();
-    if (balance < parseEther('0.01')) {
-      throw new Error('Relayer balance too low');
-    }
-    
-    // Estimate gas
-    const gasLimit = await this.contracts.estimateGas('relayCreateEscrow', [
-      seller,
-      amount,
-      token,
-      deliveryDeadline,
-      buyer,
-      signature,
-    ]);
-    
-    // Execute transaction
-    const receipt = await this.contracts.executeTransaction(
-      'relayCreateEscrow',
-      [seller, amount, token, deliveryDeadline, buyer, signature],
-      gasLimit
-    );
+    return this.withNonce(buyer, 'createEscrow', verify, async (nonce) => {
+      console.log(`✅ Signature verified for buyer: ${buyer}`);
     
-    console.log(`📦 Transaction receipt received`);
-    console.log(`   Logs count: ${receipt.logs.length}`);
-    
-    // Extract escrow ID from logs
-    let escrowId;
-    try {
-      escrowId = this.extractEscrowIdFromLogs(receipt.logs);
-    } catch (error) {
-      console.error('Failed to extract escrow ID:', error);
-      // Fallback: return transaction hash as temporary ID
-      escrowId = receipt.transactionHash;
-    }
+      // Check relayer balance
+      const balance = await this.contracts.getRelayerBalance();
+      if (balance < parseEther('0.01')) {
+        throw new Error('Relayer balance too low');
+      }
     
-    return {
-      success: true,
-      escrowId,
-      transactionHash: receipt.transactionHash,
-      gasUsed: receipt.gasUsed.toString(),
-    };
+      const args = [seller, amount, token, deliveryDeadline, buyer, signature];
+      const transactionHash = await this.nonces.run(buyer, nonce, async () => {
+        // Estimate gas
+        const gasLimit = await this.contracts.estimateGas('relayCreateEscrow', args);
+      
+        // Send transaction
+        return this.contracts.sendTransaction('relayCreateEscrow', args, gasLimit);
+      });
+    
+      // The escrow ID is only known once the transaction is mined, from its
+      // EscrowCreated log
+      return {
+        success: true,
+        transactionHash,
+      };
+    });
   }
   
+  // With a `permit` ({ deadline, signature }) the buyer's ERC-2612 token
+  // permit approves the transfer in the same transaction, so no allowance is
+  // needed beforehand
   async relayFundEscrow(params) {
-    const { escrowId, buyer, signature } = params;
+    const { escrowId, buyer, signature, permit } = params;
     
     console.log(`💰 Funding escrow: ${escrowId}`);
     
-    // Get nonce
-    const nonce = await this.contracts.getNonce(buyer);
-    
     // Verify signature
-    const message = {
-      escrowId,
-      nonce: BigInt(nonce),
-    };
-    
-    const isValid = await verifyTypedData({
+    const verify = (nonce) => verifyTypedData({
       address: buyer,
       domain: this.domain,
       types: { FundEscrow: this.types.FundEscrow },
       primaryType: 'FundEscrow',
-      message,
+      message: {
+        escrowId,
+        nonce: BigInt(nonce),
+      },
       signature,
     });
     
-    if (!isValid) {
-      throw new Error('Invalid signature');
-    }
+    return this.withNonce(buyer, 'fundEscrow', verify, async (nonce) => {
+      console.log(`✅ Signature verified for buyer: ${buyer}`);
     
-    console.log(`✅ Signature verified for buyer: ${buyer}`);
+      // Check user has sufficient USDC balance
+      const escrowDetails = await this.contracts.getEscrowDetails(escrowId);
+      const userBalance = await this.contracts.getUserBalance(buyer);
+      const userAllowance = await this.contracts.getUserAllowance(buyer);
     
-    // Check user has sufficient USDC balance
-    const escrowDetails = await this.contracts.getEscrowDetails(escrowId);
-    const userBalance = await this.contracts.getUserBalance(buyer);
-    const userAllowance = await this.contracts.getUserAllowance(buyer);
+      if (userBalance < escrowDetails.amount) {
+        throw new Error('Insufficient USDC balance');
+      }
     
-    if (userBalance < escrowDetails.amount) {
-      throw new Error('Insufficient USDC balance');
-    }
+      if (!permit && userAllowance < escrowDetails.amount) {
+        throw new Error('Insufficient USDC allowance');
+      }
     
-    if (userAllowance < escrowDetails.amount) {
-      throw new Error('Insufficient USDC allowance');
-    }
+      let method = 'relayFundEscrow';
+      let args = [escrowId, buyer, signature];
+      if (permit) {
+        const deadline = BigInt(permit.deadline);
+        if (deadline < BigInt(Math.floor(Date.now() / 1000))) {
+          throw new Error('Permit has expired');
+        }
+      
+        const { r, s, v, yParity } = parseSignature(permit.signature);
+        method = 'relayFundEscrowWithPermit';
+        args = [escrowId, buyer, deadline, Number(v ?? BigInt(27 + yParity)), r, s, signature];
+      }
     
-    // Estimate gas
-    const gasLimit = await this.contracts.estimateGas('relayFundEscrow', [
-      escrowId,
-      buyer,
-      signature,
-    ]);
-    
-    // Execute transaction
-    const receipt = await this.contracts.executeTransaction(
-      'relayFundEscrow',
-      [escrowId, buyer, signature],
-      gasLimit
-    );
-    
-    return {
-      success: true,
-      transactionHash: receipt.transactionHash,
-      gasUsed: receipt.gasUsed.toString(),
-    };
+      const transactionHash = await this.nonces.run(buyer, nonce, async () => {
+        // Estimate gas
+        const gasLimit = await this.contracts.estimateGas(method, args);
+      
+        // Send transaction
+        return this.contracts.sendTransaction(method, args, gasLimit);
+      });
+    
+      return {
+        success: true,
+        transactionHash,
+      };
+    });
   }
   
   async relayConfirmDelivery(params) {
@@ -186,49 +190,36 @@ class RelayerService {
     
     console.log(`✅ Confirming delivery: ${escrowId}`);
     
-    // Get nonce
-    const nonce = await this.contracts.getNonce(buyer);
-    
     // Verify signature
-    const message = {
-      escrowId,
-      nonce: BigInt(nonce),
-    };
-    
-    const isValid = await verifyTypedData({
+    const verify = (nonce) => verifyTypedData({
       address: buyer,
       domain: this.domain,
       types: { ConfirmDelivery: this.types.ConfirmDelivery },
       primaryType: 'ConfirmDelivery',
-      message,
+      message: {
+        escrowId,
+        nonce: BigInt(nonce),
+      },
       signature,
     });
     
-    if (!isValid) {
-      throw new Error('Invalid signature');
-    }
-    
-    console.log(`✅ Signature verified for buyer: ${buyer}`);
-    
-    // Estimate gas
-    const gasLimit = await this.contracts.estimateGas('relayConfirmDelivery', [
-      escrowId,
-      buyer,
-      signature,
-    ]);
-    
-    // Execute transaction
-    const receipt = await this.contracts.executeTransaction(
-      'relayConfirmDelivery',
-      [escrowId, buyer, signature],
-      gasLimit
-    );
-    
-    return {
-      success: true,
-      transactionHash: receipt.transactionHash,
-      gasUsed: receipt.gasUsed.toString(),
-    };
+    return this.withNonce(buyer, 'confirmDelivery', verify, async (nonce) => {
+      console.log(`✅ Signature verified for buyer: ${buyer}`);
+    
+      const args = [escrowId, buyer, signature];
+      const transactionHash = await this.nonces.run(buyer, nonce, async () => {
+        // Estimate gas
+        const gasLimit = await this.contracts.estimateGas('relayConfirmDelivery', args);
+      
+        // Send transaction
+        return this.contracts.sendTransaction('relayConfirmDelivery', args, gasLimit);
+      });
+    
+      return {
+        success: true,
+        transactionHash,
+      };
+    });
   }
   
   async relayStoreDocument(params) {
@@ -241,66 +232,117 @@ class RelayerService {
       throw new Error('Invalid document hash format');
     }
     
-    // Get nonce
-    const nonce = await this.contracts.getNonce(seller);
-    
     // Verify signature
-    const message = {
-      escrowId,
-      documentHash,
-      nonce: BigInt(nonce),
-    };
-    
-    const isValid = await verifyTypedData({
+    const verify = (nonce) => verifyTypedData({
       address: seller,
       domain: this.domain,
       types: { StoreDocument: this.types.StoreDocument },
       primaryType: 'StoreDocument',
-      message,
+      message: {
+        escrowId,
+        documentHash,
+        nonce: BigInt(nonce),
+      },
       signature,
     });
     
-    if (!isValid) {
-      throw new Error('Invalid signature');
-    }
+    return this.withNonce(seller, 'storeDocument', verify, async (nonce) => {
+      console.log(`✅ Signature verified for seller: ${seller}`);
+    
+      const args = [escrowId, documentHash, seller, signature];
+      const transactionHash = await this.nonces.run(seller, nonce, async () => {
+        // Estimate gas
+        const gasLimit = await this.contracts.estimateGas('relayStoreDocument', args);
+      
+        // Send transaction
+        return this.contracts.sendTransaction('relayStoreDocument', args, gasLimit);
+      });
+    
+      return {
+        success: true,
+        transactionHash,
+      };
+    });
+  }
+  
+  async relayInitiateDispute(params) {
+    const { escrowId, reason, initiator, signature } = params;
     
-    console.log(`✅ Signature verified for seller: ${seller}`);
+    console.log(`⚖️ Initiating dispute for escrow: ${escrowId}`);
     
-    // Estimate gas
-    const gasLimit = await this.contracts.estimateGas('relayStoreDocument', [
-      escrowId,
-      documentHash,
-      seller,
+    if (typeof reason !== 'string' || reason.length > MAX_DISPUTE_REASON_LENGTH) {
+      throw new Error(`Dispute reason must be at most ${MAX_DISPUTE_REASON_LENGTH} characters`);
+    }
+    
+    // Verify signature. The user signs the reason's hash and the contract
+    // hashes the text it is given, so a changed reason fails on both sides.
+    const verify = (nonce) => verifyTypedData({
+      address: initiator,
+      domain: this.domain,
+      types: { InitiateDispute: this.types.InitiateDispute },
+      primaryType: 'InitiateDispute',
+      message: {
+        escrowId,
+        reasonHash: keccak256(stringToHex(reason)),
+        nonce: BigInt(nonce),
+      },
       signature,
-    ]);
-    
-    // Execute transaction
-    const receipt = await this.contracts.executeTransaction(
-      'relayStoreDocument',
-      [escrowId, documentHash, seller, signature],
-      gasLimit
-    );
-    
-    return {
-      success: true,
-      transactionHash: receipt.transactionHash,
-      gasUsed: receipt.gasUsed.toString(),
-    };
+    });
+    
+    return this.withNonce(initiator, 'initiateDispute', verify, async (nonce) => {
+      console.log(`✅ Signature verified for initiator: ${initiator}`);
+    
+      const args = [escrowId, reason, initiator, signature];
+      const transactionHash = await this.nonces.run(initiator, nonce, async () => {
+        // Estimate gas
+        const gasLimit = await this.contracts.estimateGas('relayInitiateDispute', args);
+      
+        // Send transaction
+        return this.contracts.sendTransaction('relayInitiateDispute', args, gasLimit);
+      });
+    
+      return {
+        success: true,
+        transactionHash,
+      };
+    });
   }
   
-  extractEscrowIdFromLogs(logs) {
-    // Look for EscrowCreated event log
-    for (const log of logs) {
-      if (log.topics && log.topics.length > 0) {
-        // EscrowCreated event signature
-        const eventSig = keccak256(toHex('EscrowCreated(bytes32,address,address,uint256,uint256)'));
-        if (log.topics[0] === eventSig) {
-          return log.topics[1]; // escrowId is the first indexed parameter
-        }
-      }
-    }
+  async relayCancelEscrow(params) {
+    const { escrowId, party, signature } = params;
+    
+    console.log(`🚫 Cancelling escrow: ${escrowId}`);
     
-    throw new Error('EscrowCreated event not found in transaction logs');
+    // Verify signature
+    const verify = (nonce) => verifyTypedData({
+      address: party,
+      domain: this.domain,
+      types: { CancelEscrow: this.types.CancelEscrow },
+      primaryType: 'CancelEscrow',
+      message: {
+        escrowId,
+        nonce: BigInt(nonce),
+      },
+      signature,
+    });
+    
+    return this.withNonce(party, 'cancelEscrow', verify, async (nonce) => {
+      console.log(`✅ Signature verified for party: ${party}`);
+    
+      const args = [escrowId, party, signature];
+      const transactionHash = await this.nonces.run(party, nonce, async () => {
+        // Estimate gas
+        const gasLimit = await this.contracts.estimateGas('relayCancelEscrow', args);
+      
+        // Send transaction
+        return this.contracts.sendTransaction('relayCancelEscrow', args, gasLimit);
+      });
+    
+      return {
+        success: true,
+        transactionHash,
+      };
+    });
   }
 }
 
@@ -0,0 +1,76 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { privateKeyToAccount, generatePrivateKey } = require('viem/accounts');
+
+process.env.CHAIN_ID = '31337';
+process.env.ESCROW_CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+delete process.env.INDEXER_URL;
+
+const { RelayerService } = require('../src/services/relayer');
+
+const escrowId = `0x${'11'.repeat(32)}`;
+
+// Stands in for ContractService: the chain has no relays mined for anyone
+// and every transaction sent is mined
+function stubContracts() {
+  const sent = [];
+  return {
+    sent,
+    getNonce: async () => 0n,
+    estimateGas: async () => 100000n,
+    sendTransaction: async (method, params) => {
+      sent.push({ method, params });
+      return `0x${sent.length.toString(16).padStart(64, '0')}`;
+    },
+    waitForReceipt: async () => ({ status: 'success' }),
+  };
+}
+
+function signConfirmDelivery(relayer, account, nonce) {
+  return account.signTypedData({
+    domain: relayer.domain,
+    types: { ConfirmDelivery: relayer.types.ConfirmDelivery },
+    primaryType: 'ConfirmDelivery',
+    message: { escrowId, nonce },
+  });
+}
+
+test('a bad signature does not take the signer nonce', async () => {
+  const contracts = stubContracts();
+  const relayer = new RelayerService(contracts);
+  const buyer = privateKeyToAccount(generatePrivateKey());
+  const attacker = privateKeyToAccount(generatePrivateKey());
+
+  const forged = await signConfirmDelivery(relayer, attacker, 0n);
+  const signature = await signConfirmDelivery(relayer, buyer, 0n);
+
+  // The buyer's relay arrives while the forged one is still being checked
+  const [rejected, result] = await Promise.allSettled([
+    relayer.relayConfirmDelivery({ escrowId, buyer: buyer.address, signature: forged }),
+    relayer.relayConfirmDelivery({ escrowId, buyer: buyer.address, signature }),
+  ]);
+  assert.match(rejected.reason.message, /Invalid signature/);
+  assert.equal(result.status, 'fulfilled');
+  assert.deepEqual(contracts.sent, [
+    { method: 'relayConfirmDelivery', params: [escrowId, buyer.address, signature] },
+  ]);
+});
+
+test('concurrent relays from one signer take consecutive nonces', async () => {
+  const contracts = stubContracts();
+  const relayer = new RelayerService(contracts);
+  const buyer = privateKeyToAccount(generatePrivateKey());
+
+  const signatures = await Promise.all([
+    signConfirmDelivery(relayer, buyer, 0n),
+    signConfirmDelivery(relayer, buyer, 1n),
+  ]);
+  const results = await Promise.all(
+    signatures.map((signature) =>
+      relayer.relayConfirmDelivery({ escrowId, buyer: buyer.address, signature })
+    )
+  );
+
+  assert.deepEqual(results.map((result) => result.success), [true, true]);
+  assert.equal(relayer.nonces.nextNonce(buyer.address, 0n), 2n);
+});